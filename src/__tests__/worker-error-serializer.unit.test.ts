@@ -0,0 +1,143 @@
+import { serializeError, WorkerErrorRegistry } from '../worker-error-serializer';
+
+class RpcError extends Error {
+  constructor(message: string, public readonly endpoint: string) {
+    super(message);
+  }
+}
+
+describe('serializeError', () => {
+  it('should keep the name, message, stack and code of the error', () => {
+    const error = Object.assign(new TypeError('invalid block'), { code: 'E_BLOCK' });
+
+    expect(serializeError(error)).toEqual({
+      name: 'TypeError',
+      message: 'invalid block',
+      stack: error.stack,
+      code: 'E_BLOCK',
+    });
+  });
+
+  it('should keep the custom fields and the class of the error', () => {
+    const json = serializeError(new RpcError('timeout', 'http://localhost'));
+
+    expect(json).toEqual(
+      expect.objectContaining({
+        name: 'Error',
+        className: 'RpcError',
+        message: 'timeout',
+        endpoint: 'http://localhost',
+      })
+    );
+  });
+
+  it('should serialize the cause chain and aggregated errors', () => {
+    const root = new Error('root');
+    const error = new AggregateError([new RangeError('first')], 'all failed', {
+      cause: new Error('wrapper', { cause: root }),
+    });
+
+    const json = serializeError(error);
+
+    expect(json.errors).toEqual([expect.objectContaining({ name: 'RangeError' })]);
+    expect(json.cause).toEqual(
+      expect.objectContaining({
+        message: 'wrapper',
+        cause: expect.objectContaining({ message: 'root' }),
+      })
+    );
+  });
+
+  it('should drop functions and break reference cycles', () => {
+    const error = Object.assign(new Error('cyclic'), { retry: () => null });
+    Object.assign(error, { cause: error });
+
+    const json = serializeError(error);
+
+    expect(json.retry).toBeUndefined();
+    expect(json.cause).toBeUndefined();
+  });
+
+  it('should drop functions and break reference cycles in nested objects', () => {
+    const config: { [key: string]: unknown } = { url: '/blocks', adapter: () => 1 };
+    config.self = config;
+    const error = Object.assign(new Error('request failed'), {
+      config,
+      headers: [{ accept: 'json', [Symbol('raw')]: true, toString: () => '' }],
+    });
+
+    const json = serializeError(error);
+
+    expect(json.config).toEqual({ url: '/blocks' });
+    expect(json.headers).toEqual([{ accept: 'json' }]);
+  });
+
+  it('should drop functions from the thrown objects', () => {
+    expect(serializeError({ name: 'RpcError', retry: () => null })).toEqual({
+      name: 'RpcError',
+    });
+  });
+
+  it('should wrap values that are not errors', () => {
+    expect(serializeError('failure')).toEqual({ name: 'Error', message: 'failure' });
+    expect(serializeError(undefined)).toBeUndefined();
+  });
+});
+
+describe('WorkerErrorRegistry', () => {
+  let registry: WorkerErrorRegistry;
+
+  beforeEach(() => {
+    registry = new WorkerErrorRegistry();
+  });
+
+  it('should rehydrate built-in errors', () => {
+    const error = registry.deserialize(serializeError(new RangeError('out of range')));
+
+    expect(error).toBeInstanceOf(RangeError);
+    expect(error.name).toBe('RangeError');
+    expect(error.message).toBe('out of range');
+  });
+
+  it('should rehydrate registered error classes with their fields', () => {
+    const original = new RpcError('timeout', 'http://localhost');
+    registry.register(RpcError);
+
+    const error = registry.deserialize(serializeError(original)) as RpcError;
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.message).toBe('timeout');
+    expect(error.stack).toBe(original.stack);
+    expect(error.endpoint).toBe('http://localhost');
+    expect(Object.keys(error)).toEqual(['endpoint']);
+  });
+
+  it('should rehydrate the cause chain and aggregated errors', () => {
+    const error = registry.deserialize(
+      serializeError(
+        new AggregateError([new TypeError('first')], 'all failed', {
+          cause: new Error('root'),
+        })
+      )
+    ) as AggregateError;
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors[0]).toBeInstanceOf(TypeError);
+    expect(error.cause).toBeInstanceOf(Error);
+    expect((error.cause as Error).message).toBe('root');
+  });
+
+  it('should rehydrate unknown errors as Error with the original name', () => {
+    const error = registry.deserialize({ name: 'RpcError', message: 'timeout' });
+
+    expect(error.constructor).toBe(Error);
+    expect(error.name).toBe('RpcError');
+  });
+
+  it('should unregister error classes', () => {
+    registry.register(RpcError);
+    registry.unregister('RpcError');
+
+    expect(registry.has('RpcError')).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { WorkerEventEmitter } from '../worker-event-emitter';
+
+type TestEvents = {
+  started: (id: number, name: string) => Promise<void> | void;
+  stopped: () => Promise<void> | void;
+};
+
+describe('WorkerEventEmitter', () => {
+  let emitter: WorkerEventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    emitter = new WorkerEventEmitter<TestEvents>();
+  });
+
+  it('should call every listener of the event with the arguments', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const other = jest.fn();
+    emitter.on('started', first);
+    emitter.on('started', second);
+    emitter.on('stopped', other);
+
+    await emitter.emit('started', 1, 'parser');
+
+    expect(first).toHaveBeenCalledWith(1, 'parser');
+    expect(second).toHaveBeenCalledWith(1, 'parser');
+    expect(other).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('started')).toBe(2);
+  });
+
+  it('should wait for asynchronous listeners', async () => {
+    const calls = [];
+    emitter.on('stopped', async () => {
+      await new Promise(setImmediate);
+      calls.push('stopped');
+    });
+
+    await emitter.emit('stopped');
+
+    expect(calls).toEqual(['stopped']);
+  });
+
+  it('should unsubscribe the listeners', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const unsubscribe = emitter.on('stopped', first);
+    emitter.on('stopped', second);
+
+    unsubscribe();
+    emitter.off('stopped', second);
+    await emitter.emit('stopped');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('stopped')).toBe(0);
+  });
+
+  it('should call the once listeners a single time', async () => {
+    const listener = jest.fn();
+    emitter.once('stopped', listener);
+
+    await emitter.emit('stopped');
+    await emitter.emit('stopped');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should log the errors of the listeners and call the others', async () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const listener = jest.fn();
+    emitter.on('stopped', () => {
+      throw new Error('failure');
+    });
+    emitter.on('stopped', listener);
+
+    await expect(emitter.emit('stopped')).resolves.toBeUndefined();
+
+    expect(listener).toHaveBeenCalled();
+    expect(consoleSpy).toHaveBeenCalledWith(
+      'The listener of the "stopped" event failed',
+      expect.any(Error)
+    );
+    consoleSpy.mockRestore();
+  });
+});
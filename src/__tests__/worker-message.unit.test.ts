@@ -1,4 +1,9 @@
-import { WorkerMessage, WorkerMessageName, WorkerMessageType } from '../worker-message';
+import {
+  WorkerMessage,
+  WorkerMessageContent,
+  WorkerMessageName,
+  WorkerMessageType,
+} from '../worker-message';
 
 describe('WorkerMessage', () => {
   describe('use', () => {
@@ -15,6 +20,58 @@ describe('WorkerMessage', () => {
     });
   });
 
+  describe('dataPassed', () => {
+    it('should create a data passed worker message for the specified worker ID', () => {
+      const message = WorkerMessage.dataPassed(1);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.System);
+      expect(message.name).toBe(WorkerMessageName.DataPassed);
+      expect(message.error).toBeUndefined();
+    });
+
+    it('should pass the error thrown while handling the data', () => {
+      const message = WorkerMessage.dataPassed(1, new RangeError('invalid batch'));
+
+      expect(message.error).toEqual(
+        expect.objectContaining({ name: 'RangeError', message: 'invalid batch' })
+      );
+    });
+  });
+
+  describe('connectPeer', () => {
+    it('should create a connect peer worker message with the peer ID and port', () => {
+      const port = {} as any;
+
+      const message = WorkerMessage.connectPeer(1, 2, port);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.System);
+      expect(message.name).toBe(WorkerMessageName.ConnectPeer);
+      expect(message.data).toEqual({ peerId: 2, port });
+    });
+  });
+
+  describe('ping', () => {
+    it('should create a ping worker message for the specified worker ID', () => {
+      const message = WorkerMessage.ping(1);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.System);
+      expect(message.name).toBe(WorkerMessageName.Ping);
+    });
+  });
+
+  describe('pong', () => {
+    it('should create a pong worker message for the specified worker ID', () => {
+      const message = WorkerMessage.pong(1);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.System);
+      expect(message.name).toBe(WorkerMessageName.Pong);
+    });
+  });
+
   describe('load', () => {
     it('should create a load worker message for the specified worker ID and pointer', () => {
       const workerId = 1;
@@ -77,6 +134,23 @@ describe('WorkerMessage', () => {
       expect(message.type).toBe(WorkerMessageType.System);
       expect(message.name).toBe(WorkerMessageName.DisposeComplete);
     });
+
+    it('should pass the heap usage of the worker thread', () => {
+      const message = WorkerMessage.disposeComplete(1, 1024);
+
+      expect(message.data).toBe(1024);
+    });
+  });
+
+  describe('detachComplete', () => {
+    it('should create a detach complete worker message with the heap usage', () => {
+      const message = WorkerMessage.detachComplete(1, 1024);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.System);
+      expect(message.name).toBe(WorkerMessageName.DetachComplete);
+      expect(message.data).toBe(1024);
+    });
   });
 
   describe('disposeFailure', () => {
@@ -119,6 +193,16 @@ describe('WorkerMessage', () => {
       expect(message.name).toBe(WorkerMessageName.TaskRejected);
       expect(message.error).toBeTruthy();
     });
+
+    it('should serialize the non-enumerable properties of the error', () => {
+      const error = new Error('Task rejected', { cause: new Error('Connection lost') });
+
+      const { error: errorJson } = WorkerMessage.taskRejected(1, error);
+
+      expect(errorJson.cause).toEqual(
+        expect.objectContaining({ message: 'Connection lost' })
+      );
+    });
   });
 
   describe('taskProgress', () => {
@@ -240,6 +324,66 @@ describe('WorkerMessage', () => {
     });
   });
 
+  describe('close', () => {
+    it('should create close worker messages for the specified worker ID', () => {
+      const error = new Error('Close error');
+
+      expect(WorkerMessage.close(1).name).toBe(WorkerMessageName.Close);
+      expect(WorkerMessage.closeComplete(1).name).toBe(WorkerMessageName.CloseComplete);
+      expect(WorkerMessage.closeFailure(1, error).name).toBe(
+        WorkerMessageName.CloseFailure
+      );
+      expect(WorkerMessage.closeFailure(1, error).error).toEqual(
+        expect.objectContaining({ name: 'Error', message: 'Close error' })
+      );
+      expect(WorkerMessage.close(1).type).toBe(WorkerMessageType.System);
+    });
+  });
+
+  describe('cancelTask', () => {
+    it('should create a cancel task worker message for the specified worker ID', () => {
+      const message = WorkerMessage.cancelTask(1);
+
+      expect(message.workerId).toBe(1);
+      expect(message.type).toBe(WorkerMessageType.Info);
+      expect(message.name).toBe(WorkerMessageName.CancelTask);
+    });
+  });
+
+  describe('isTaskCancelled', () => {
+    it('should return true if the worker message represents a task cancelled message', () => {
+      const message = WorkerMessage.taskCancelled(1);
+
+      expect(message.type).toBe(WorkerMessageType.Info);
+      expect(message.isTaskCancelled()).toBe(true);
+    });
+
+    it('should return false if the worker message does not represent a task cancelled message', () => {
+      const message = WorkerMessage.cancelTask(1);
+
+      expect(message.isTaskCancelled()).toBe(false);
+    });
+  });
+
+  describe('toError', () => {
+    it('should rehydrate the error of the message', () => {
+      const json = WorkerMessage.taskRejected(1, new TypeError('Task rejected')).toJson();
+
+      const error = WorkerMessage.create(json as WorkerMessageContent).toError();
+
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error.message).toBe('Task rejected');
+    });
+
+    it('should return undefined when the message has no error', () => {
+      const json = WorkerMessage.taskResolved(1, 'result').toJson();
+
+      expect(
+        WorkerMessage.create(json as WorkerMessageContent).toError()
+      ).toBeUndefined();
+    });
+  });
+
   describe('toJson', () => {
     it('should convert the worker message to a JSON object', () => {
       const message = WorkerMessage.runTask(1, 'Task data');
@@ -0,0 +1,134 @@
+import {
+  formatPrometheusMetrics,
+  MetricsHistogram,
+  WorkerMetricsRecorder,
+} from '../worker-metrics';
+import { TaskOutcome } from '../worker.enums';
+
+describe('MetricsHistogram', () => {
+  it('should count the values in cumulative buckets', () => {
+    const histogram = new MetricsHistogram([10, 100]);
+
+    histogram.observe(5);
+    histogram.observe(10);
+    histogram.observe(50);
+    histogram.observe(500);
+
+    expect(histogram.snapshot()).toEqual({
+      buckets: [
+        { le: 10, count: 2 },
+        { le: 100, count: 3 },
+      ],
+      sum: 565,
+      count: 4,
+    });
+  });
+});
+
+describe('WorkerMetricsRecorder', () => {
+  let recorder: WorkerMetricsRecorder;
+
+  beforeEach(() => {
+    recorder = new WorkerMetricsRecorder();
+  });
+
+  it('should count the tasks by pointer and outcome', () => {
+    recorder.recordTaskStarted('parser');
+    recorder.recordTaskStarted('parser');
+    recorder.recordTaskStarted('writer');
+    recorder.recordTaskFinished('parser', TaskOutcome.Resolved, 20);
+    recorder.recordTaskFinished('parser', TaskOutcome.Rejected, 30);
+    recorder.recordTaskFinished('writer', TaskOutcome.Failed, 40);
+
+    const { tasks, taskDuration } = recorder.snapshot();
+
+    expect(tasks).toEqual({
+      parser: { started: 2, resolved: 1, rejected: 1, failed: 0 },
+      writer: { started: 1, resolved: 0, rejected: 0, failed: 1 },
+    });
+    expect(taskDuration.count).toBe(3);
+    expect(taskDuration.sum).toBe(90);
+  });
+
+  it('should count the queue waits and the worker events', () => {
+    recorder.recordQueueWait(0);
+    recorder.recordQueueWait(200);
+    recorder.recordWorkerSpawned();
+    recorder.recordWorkerSpawned();
+    recorder.recordWorkerCrashed();
+
+    const { queueWait, workersSpawned, workersCrashed } = recorder.snapshot();
+
+    expect(queueWait.count).toBe(2);
+    expect(queueWait.sum).toBe(200);
+    expect(workersSpawned).toBe(2);
+    expect(workersCrashed).toBe(1);
+  });
+});
+
+describe('formatPrometheusMetrics', () => {
+  const recorder = new WorkerMetricsRecorder();
+  recorder.recordTaskStarted('path/to/"parser"');
+  recorder.recordTaskFinished('path/to/"parser"', TaskOutcome.Resolved, 1500);
+  recorder.recordWorkerSpawned();
+
+  const text = formatPrometheusMetrics({
+    ...recorder.snapshot(),
+    queuedTasks: 3,
+    workers: [
+      { id: 1, active: true, taskCount: 4, heapUsage: 1024, eventLoopUtilization: 0.5 },
+      { id: 2, active: false, taskCount: 0, heapUsage: 0, eventLoopUtilization: 0 },
+    ],
+  });
+  const lines = text.split('\n');
+
+  it('should expose the task counters with escaped pointer labels', () => {
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# HELP aw_workers_tasks_started_total The number of tasks started.',
+        '# TYPE aw_workers_tasks_started_total counter',
+        'aw_workers_tasks_started_total{pointer="path/to/\\"parser\\""} 1',
+        'aw_workers_tasks_resolved_total{pointer="path/to/\\"parser\\""} 1',
+      ])
+    );
+  });
+
+  it('should expose the histograms in seconds', () => {
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '# TYPE aw_workers_task_duration_seconds histogram',
+        'aw_workers_task_duration_seconds_bucket{le="1"} 0',
+        'aw_workers_task_duration_seconds_bucket{le="2.5"} 1',
+        'aw_workers_task_duration_seconds_bucket{le="+Inf"} 1',
+        'aw_workers_task_duration_seconds_sum 1.5',
+        'aw_workers_task_duration_seconds_count 1',
+        'aw_workers_queue_wait_seconds_count 0',
+      ])
+    );
+  });
+
+  it('should expose the pool and worker thread gauges', () => {
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'aw_workers_workers_spawned_total 1',
+        'aw_workers_workers_crashed_total 0',
+        'aw_workers_workers{state="active"} 1',
+        'aw_workers_workers{state="available"} 1',
+        'aw_workers_queued_tasks 3',
+        'aw_workers_worker_tasks_total{worker_id="1"} 4',
+        'aw_workers_worker_heap_used_bytes{worker_id="1"} 1024',
+        'aw_workers_worker_event_loop_utilization{worker_id="1"} 0.5',
+      ])
+    );
+  });
+
+  it('should use the given prefix and end with a line feed', () => {
+    const custom = formatPrometheusMetrics(
+      { ...recorder.snapshot(), queuedTasks: 0, workers: [] },
+      'sync'
+    );
+
+    expect(custom).toContain('sync_queued_tasks 0');
+    expect(custom.endsWith('\n')).toBe(true);
+  });
+});
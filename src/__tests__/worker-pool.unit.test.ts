@@ -1,7 +1,24 @@
+import { MessagePort } from 'worker_threads';
 import { WorkerProxy } from '../worker-proxy';
 import { WorkerPool } from '../worker-pool';
-import { getWorkersCount } from '../worker.utils';
+import { getRetryDelay, getWorkersCount } from '../worker.utils';
 import { testPath } from '../worker-loader/worker-loader.utils';
+import { WorkerMessage } from '../worker-message';
+import { TaskGraphNodeStatus, TaskPriority } from '../worker.enums';
+import { WorkerSharedStore } from '../worker-shared-store';
+import { Worker } from '../worker';
+import {
+  PoolClosedError,
+  PoolExhaustedError,
+  TaskCancelledError,
+  TaskGraphCycleError,
+  TaskQueueFullError,
+  TaskRejectedError,
+  TaskTimeoutError,
+  TooManyWarmReservationsError,
+  WorkerCrashedError,
+  WorkerUnresponsiveError,
+} from '../worker.errors';
 
 jest.mock('../worker-loader/worker-loader.utils', () => ({
   testPath: jest.fn(),
@@ -12,18 +29,48 @@ jest.mock('../worker-proxy', () => ({
     setup: jest.fn(),
     load: jest.fn(),
     dispose: jest.fn(),
-    remove: jest.fn(),
+    remove: jest.fn().mockResolvedValue(0),
+    run: jest.fn(),
+    cancel: jest.fn(),
+    close: jest.fn(),
+    onMessage: jest.fn(),
+    onCrash: jest.fn(),
+    onExit: jest.fn(),
+    ping: jest.fn(),
+    detach: jest.fn(),
   })),
 }));
 
 jest.mock('../worker.utils', () => ({
   getWorkersCount: jest.fn(),
+  getRetryDelay: jest.fn(),
 }));
 
 describe('WorkerPool', () => {
   let workerPool: WorkerPool;
   let mockWorkerProxy: any;
 
+  // settles the chained promise callbacks, also when the timers are faked
+  const flushPromises = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+  const createWorker = (id: number, pointer?: string) => ({
+    ...mockWorkerProxy,
+    id,
+    pointer,
+    isLoaded: pointer !== undefined,
+    load: jest.fn(),
+    dispose: jest.fn(),
+    detach: jest.fn(),
+  });
+  // calls the handler last registered on the mocked worker, e.g. to answer its task
+  const emit = (event: 'onMessage' | 'onExit', ...args: unknown[]) => {
+    const { calls } = mockWorkerProxy[event].mock;
+    return calls[calls.length - 1][0](...args);
+  };
+
   beforeEach(() => {
     mockWorkerProxy = new WorkerProxy({}, {});
     (WorkerProxy as any).mockClear();
@@ -57,6 +104,55 @@ describe('WorkerPool', () => {
       expect(mockWorkerProxy.setup).toHaveBeenCalled();
       expect((workerPool as any).availableWorkers.length).toBe(3);
     });
+
+    it('should create the shared store and pass it to the worker proxies', async () => {
+      const sharedStore = { counters: ['processed'] };
+
+      await workerPool.setup({
+        threadsCount: 1,
+        workerLoaderPath: 'workerLoaderPath',
+        sharedStore,
+      });
+
+      expect(workerPool.sharedStore).toBeInstanceOf(WorkerSharedStore);
+      expect(workerPool.sharedStore.state.schema).toBe(sharedStore);
+      expect(WorkerProxy).toHaveBeenCalledWith(
+        undefined,
+        expect.any(Object),
+        workerPool.sharedStore.state
+      );
+    });
+
+    it('should pass the thread options to the worker proxies', async () => {
+      const stdout = jest.fn();
+      const options = {
+        threadsCount: 1,
+        sharedData: 'sharedData',
+        workerLoaderPath: 'workerLoaderPath',
+        resourceLimits: { maxOldGenerationSizeMb: 256 },
+        env: { RPC_URL: 'http://localhost' },
+        execArgv: ['--inspect'],
+        argv: ['--verbose'],
+        stdout,
+      };
+
+      await workerPool.setup(options);
+
+      expect(WorkerProxy).toHaveBeenCalledWith(
+        'sharedData',
+        {
+          workerLoaderPath: 'workerLoaderPath',
+          workerLoaderDependenciesPath: undefined,
+          resourceLimits: { maxOldGenerationSizeMb: 256 },
+          env: { RPC_URL: 'http://localhost' },
+          execArgv: ['--inspect'],
+          argv: ['--verbose'],
+          stdout,
+          stderr: undefined,
+        },
+        undefined
+      );
+    });
   });
 
   describe('getWorker', () => {
@@ -73,15 +169,77 @@ describe('WorkerPool', () => {
       expect((workerPool as any).availableWorkers.length).toBe(0);
     });
 
-    it('should return null when there are no available workers', async () => {
+    it('should queue the request when there are no available workers', async () => {
+      const activeWorker = { ...mockWorkerProxy, id: 1 };
       (workerPool as any).availableWorkers = [];
-      workerPool.workerMaxCount = 3;
+      (workerPool as any).activeWorkersByPid.set(1, activeWorker);
+      workerPool.workerMaxCount = 1;
 
-      const result = await workerPool.getWorker();
+      const promise = workerPool.getWorker('pointer');
+      await new Promise(setImmediate);
 
-      expect(result).toBeNull();
       expect(mockWorkerProxy.load).not.toHaveBeenCalled();
-      expect((workerPool as any).activeWorkersByPid.size).toBe(0);
+      expect(workerPool.countQueuedTasks()).toBe(1);
+
+      (workerPool as any).activeWorkersByPid.set(1, mockWorkerProxy);
+      await workerPool.releaseWorker(1);
+
+      await expect(promise).resolves.toBe(mockWorkerProxy);
+      expect(mockWorkerProxy.load).toHaveBeenCalledWith('pointer');
+      expect(workerPool.countQueuedTasks()).toBe(0);
+      expect((workerPool as any).activeWorkersByPid.size).toBe(1);
+    });
+
+    it('should dispatch queued requests in order of arrival', async () => {
+      const order = [];
+      mockWorkerProxy.id = 1;
+      (workerPool as any).activeWorkersByPid.set(1, mockWorkerProxy);
+      workerPool.workerMaxCount = 1;
+
+      const first = workerPool.getWorker('first').then(() => order.push('first'));
+      const second = workerPool.getWorker('second').then(() => order.push('second'));
+
+      await workerPool.releaseWorker(1);
+      await first;
+      await workerPool.releaseWorker(1);
+      await second;
+
+      expect(order).toEqual(['first', 'second']);
+      expect(mockWorkerProxy.load.mock.calls).toEqual([['first'], ['second']]);
+    });
+
+    it('should dispatch queued requests with a higher priority first', async () => {
+      const order = [];
+      mockWorkerProxy.id = 1;
+      (workerPool as any).activeWorkersByPid.set(1, mockWorkerProxy);
+      workerPool.workerMaxCount = 1;
+
+      const low = workerPool
+        .getWorker('low', { priority: TaskPriority.Low })
+        .then(() => order.push('low'));
+      const high = workerPool
+        .getWorker('high', { priority: TaskPriority.High })
+        .then(() => order.push('high'));
+
+      await workerPool.releaseWorker(1);
+      await high;
+      await workerPool.releaseWorker(1);
+      await low;
+
+      expect(order).toEqual(['high', 'low']);
+    });
+
+    it('should reject with TaskQueueFullError when the queue is full', async () => {
+      (getWorkersCount as any).mockReturnValue(0);
+      await workerPool.setup({ threadsCount: 0, maxQueueSize: 1 });
+
+      const pending = workerPool.getWorker('first');
+
+      await expect(workerPool.getWorker('second')).rejects.toBeInstanceOf(
+        TaskQueueFullError
+      );
+      expect(workerPool.countQueuedTasks()).toBe(1);
+      pending.catch(() => null);
     });
   });
 
@@ -92,14 +250,15 @@ describe('WorkerPool', () => {
       (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
       (workerPool as any).availableWorkers = [mockWorkerProxy];
       workerPool.workerMaxCount = 2;
-      (workerPool as any).workerReleaseHandler = jest.fn();
+      const handler = jest.fn();
+      workerPool.onWorkerRelease(handler);
 
       await workerPool.releaseWorker(id, data);
 
       expect(mockWorkerProxy.dispose).toHaveBeenCalled();
       expect((workerPool as any).activeWorkersByPid.size).toBe(0);
       expect((workerPool as any).availableWorkers.length).toBe(2);
-      expect((workerPool as any).workerReleaseHandler).toHaveBeenCalledWith(id, data);
+      expect(handler).toHaveBeenCalledWith(id, data);
     });
 
     it('should log a message if no worker with the specified ID is found', async () => {
@@ -107,7 +266,8 @@ describe('WorkerPool', () => {
       const data = 'data';
       (workerPool as any).availableWorkers = [mockWorkerProxy];
       workerPool.workerMaxCount = 3;
-      (workerPool as any).workerReleaseHandler = jest.fn();
+      const handler = jest.fn();
+      workerPool.onWorkerRelease(handler);
 
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
 
@@ -119,106 +279,1538 @@ describe('WorkerPool', () => {
       expect(mockWorkerProxy.dispose).not.toHaveBeenCalled();
       expect((workerPool as any).activeWorkersByPid.size).toBe(0);
       expect((workerPool as any).availableWorkers.length).toBe(1);
-      expect((workerPool as any).workerReleaseHandler).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
 
       consoleSpy.mockRestore();
     });
-  });
 
-  describe('removeWorkers', () => {
-    it('should call remove on all active and available workers', () => {
-      const activeWorker1 = { remove: jest.fn() };
-      const activeWorker2 = { remove: jest.fn() };
-      const availableWorker1 = { remove: jest.fn() };
-      const availableWorker2 = { remove: jest.fn() };
+    it('should recycle a worker that has run the maximum number of tasks', async () => {
+      const id = 123;
+      const worker = {
+        ...mockWorkerProxy,
+        close: jest.fn().mockResolvedValue(undefined),
+        taskCount: 10,
+        heapUsage: 0,
+      };
+      (workerPool as any).activeWorkersByPid.set(id, worker);
+      (workerPool as any).availableWorkers = [];
+      (workerPool as any).maxTasksPerWorker = 10;
+      workerPool.workerMaxCount = 1;
+      const handler = jest.fn();
+      workerPool.onWorkerRelease(handler);
 
-      (workerPool as any).activeWorkersByPid = new Map([
-        [1, activeWorker1],
-        [2, activeWorker2],
-      ]);
-      (workerPool as any).availableWorkers = [availableWorker1, availableWorker2];
+      await workerPool.releaseWorker(id);
 
-      workerPool.removeWorkers();
+      expect(worker.dispose).toHaveBeenCalled();
+      expect(handler).toHaveBeenCalledWith(id, undefined);
+      expect((workerPool as any).spawningCount).toBe(1);
 
-      expect(activeWorker1.remove).toHaveBeenCalled();
-      expect(activeWorker2.remove).toHaveBeenCalled();
-      expect(availableWorker1.remove).toHaveBeenCalled();
-      expect(availableWorker2.remove).toHaveBeenCalled();
+      await new Promise(setImmediate);
+
+      expect(worker.close).toHaveBeenCalled();
+      expect(worker.remove).toHaveBeenCalled();
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect((workerPool as any).spawningCount).toBe(0);
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
+    });
+
+    it('should recycle a worker that uses too much memory', async () => {
+      const id = 123;
+      const worker = {
+        ...mockWorkerProxy,
+        close: jest.fn().mockResolvedValue(undefined),
+        taskCount: 1,
+        heapUsage: 300 * 1024 * 1024,
+      };
+      (workerPool as any).activeWorkersByPid.set(id, worker);
+      (workerPool as any).availableWorkers = [];
+      (workerPool as any).maxWorkerHeapUsage = 256 * 1024 * 1024;
+      workerPool.workerMaxCount = 1;
+
+      await workerPool.releaseWorker(id);
+      await new Promise(setImmediate);
+
+      expect(worker.remove).toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
+    });
+
+    it('should keep a worker within its budget', async () => {
+      const id = 123;
+      const worker = { ...mockWorkerProxy, taskCount: 9, heapUsage: 100 * 1024 * 1024 };
+      (workerPool as any).activeWorkersByPid.set(id, worker);
+      (workerPool as any).availableWorkers = [];
+      (workerPool as any).maxTasksPerWorker = 10;
+      (workerPool as any).maxWorkerHeapUsage = 256 * 1024 * 1024;
+      workerPool.workerMaxCount = 1;
+
+      await workerPool.releaseWorker(id);
+
+      expect(worker.remove).not.toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([worker]);
     });
   });
 
-  describe('hasAvailableWorker', () => {
-    it('should return true if there is an available worker', () => {
-      workerPool.workerMaxCount = 3;
-      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+  describe('execute', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      mockWorkerProxy.id = id;
       (workerPool as any).availableWorkers = [mockWorkerProxy];
+      workerPool.workerMaxCount = 1;
+    });
 
-      const result = workerPool.hasAvailableWorker();
+    it('should run the task and resolve with the result', async () => {
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
 
-      expect(result).toBe(true);
+      expect(mockWorkerProxy.load).toHaveBeenCalledWith('pointer');
+      expect(mockWorkerProxy.run).toHaveBeenCalledWith('data', undefined);
+
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+
+      await expect(promise).resolves.toBe('result');
+      expect(mockWorkerProxy.dispose).toHaveBeenCalled();
+      expect((workerPool as any).activeWorkersByPid.size).toBe(0);
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
     });
 
-    it('should return false if there are no available workers', () => {
-      workerPool.workerMaxCount = 1;
-      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+    it('should reject with TaskRejectedError and release the worker', async () => {
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskRejected(id, new Error('failure')));
+
+      await expect(promise).rejects.toBeInstanceOf(TaskRejectedError);
+      await expect(promise).rejects.toThrow('failure');
+      await expect(promise).rejects.toHaveProperty('cause', expect.any(Error));
+      expect(mockWorkerProxy.dispose).toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
+    });
+
+    it('should transfer the given objects to the worker', async () => {
+      const data = new Uint8Array(8);
+      const promise = workerPool.execute('pointer', data, {
+        transferList: [data.buffer],
+      });
+      await new Promise(setImmediate);
+
+      expect(mockWorkerProxy.run).toHaveBeenCalledWith(data, [data.buffer]);
+
+      await emit('onMessage', WorkerMessage.taskResolved(id));
+      await promise;
+    });
+
+    it('should pass the progress to the handler', async () => {
+      const onProgress = jest.fn();
+      const promise = workerPool.executeWithProgress('pointer', 'data', onProgress);
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskProgress(id, 50));
+      await emit('onMessage', WorkerMessage.taskResolved(id, 100));
+
+      await expect(promise).resolves.toBe(100);
+      expect(onProgress).toHaveBeenCalledWith(50);
+    });
+
+    it('should stream the progress and return the result', async () => {
+      const stream = workerPool.stream('pointer', 'data');
+      const first = stream.next();
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskProgress(id, 25));
+      await emit('onMessage', WorkerMessage.taskProgress(id, 50));
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+
+      await expect(first).resolves.toEqual({ value: 25, done: false });
+      await expect(stream.next()).resolves.toEqual({ value: 50, done: false });
+      await expect(stream.next()).resolves.toEqual({ value: 'result', done: true });
+    });
+
+    it('should throw from the stream when the task is rejected', async () => {
+      const progress = [];
+      const consume = async () => {
+        for await (const value of workerPool.stream('pointer', 'data')) {
+          progress.push(value);
+        }
+      };
+      const promise = consume();
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskProgress(id, 25));
+      await emit('onMessage', WorkerMessage.taskRejected(id, new Error('failure')));
+
+      await expect(promise).rejects.toBeInstanceOf(TaskRejectedError);
+      expect(progress).toEqual([25]);
+    });
+
+    it('should cancel the task when the consumer stops the stream', async () => {
+      const stream = workerPool.stream('pointer', 'data');
+      const first = stream.next();
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskProgress(id, 25));
+      await first;
+      await stream.return(undefined);
+
+      expect(mockWorkerProxy.cancel).toHaveBeenCalled();
+      await emit('onMessage', WorkerMessage.taskCancelled(id));
+      expect(mockWorkerProxy.dispose).toHaveBeenCalled();
+    });
+
+    it('should type the data, progress and result by the worker class', async () => {
+      class BlockWorker extends Worker<unknown, { start: number }, string[], number> {}
+      const onProgress = jest.fn((progress: number) => expect(progress).toBe(50));
+      const promise: Promise<string[]> = workerPool.executeWithProgress<BlockWorker>(
+        'pointer',
+        { start: 1 },
+        onProgress
+      );
+      await new Promise(setImmediate);
+
+      // @ts-expect-error the data does not match the input of the worker
+      const invalid = () => workerPool.execute<BlockWorker>('pointer', { start: 'one' });
+      expect(invalid).toBeDefined();
+
+      await emit('onMessage', WorkerMessage.taskProgress(id, 50));
+      await emit('onMessage', WorkerMessage.taskResolved(id, ['block']));
+
+      await expect(promise).resolves.toEqual(['block']);
+      expect(onProgress).toHaveBeenCalledWith(50);
+    });
+
+    it('should reject with WorkerCrashedError when the worker crashes', async () => {
+      const error = new WorkerCrashedError(id, 1, new Error('uncaught'));
+      const respawnSpy = jest
+        .spyOn(workerPool as any, 'scheduleRespawn')
+        .mockImplementation();
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+
+      await expect(promise).rejects.toBe(error);
+      expect(mockWorkerProxy.dispose).not.toHaveBeenCalled();
+      expect((workerPool as any).activeWorkersByPid.size).toBe(0);
+      expect((workerPool as any).taskFailureHandlers.size).toBe(0);
+      expect(respawnSpy).toHaveBeenCalledWith(error);
+    });
+
+    it('should reject with TaskTimeoutError and replace the worker when the task hangs', async () => {
+      const promise = workerPool.execute('pointer', 'data', { timeout: 10 });
+
+      await expect(promise).rejects.toBeInstanceOf(TaskTimeoutError);
+      await flushPromises();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+      expect(mockWorkerProxy.dispose).not.toHaveBeenCalled();
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect(mockWorkerProxy.setup).toHaveBeenCalled();
+      expect((workerPool as any).activeWorkersByPid.size).toBe(0);
+      expect((workerPool as any).availableWorkers.length).toBe(1);
+      expect((workerPool as any).spawningCount).toBe(0);
+    });
+
+    it('should reject with TaskTimeoutError before the hung worker is replaced', async () => {
+      (WorkerProxy as any).mockImplementationOnce(() => ({
+        ...createWorker(2),
+        setup: jest.fn().mockReturnValue(new Promise(() => {})),
+      }));
+      const promise = workerPool.execute('pointer', 'data', { timeout: 10 });
+
+      await expect(promise).rejects.toBeInstanceOf(TaskTimeoutError);
+      await flushPromises();
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect((workerPool as any).availableWorkers.length).toBe(0);
+      expect((workerPool as any).spawningCount).toBe(1);
+    });
+
+    it('should schedule a respawn when the hung worker cannot be replaced', async () => {
+      const error = new Error('setup failed');
+      const respawnSpy = jest
+        .spyOn(workerPool as any, 'scheduleRespawn')
+        .mockImplementation();
+      (WorkerProxy as any).mockImplementationOnce(() => ({
+        ...createWorker(2),
+        setup: jest.fn().mockRejectedValue(error),
+      }));
+      const promise = workerPool.execute('pointer', 'data', { timeout: 10 });
+
+      await expect(promise).rejects.toBeInstanceOf(TaskTimeoutError);
+      await flushPromises();
+      expect(respawnSpy).toHaveBeenCalledWith(error);
+      expect((workerPool as any).spawningCount).toBe(0);
+    });
+
+    it('should use the default timeout of the pool', async () => {
+      (workerPool as any).taskTimeout = 10;
+
+      await expect(workerPool.execute('pointer')).rejects.toBeInstanceOf(
+        TaskTimeoutError
+      );
+    });
+
+    it('should not time out when the task is resolved in time', async () => {
+      const clearTimeoutSpy = jest.spyOn(global, 'clearTimeout');
+      const promise = workerPool.execute('pointer', 'data', { timeout: 1000 });
+      await new Promise(setImmediate);
+
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+
+      await expect(promise).resolves.toBe('result');
+      expect(clearTimeoutSpy).toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).not.toHaveBeenCalled();
+      clearTimeoutSpy.mockRestore();
+    });
+
+    it('should cancel the running task when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const promise = workerPool.execute('pointer', 'data', {
+        signal: controller.signal,
+      });
+      await new Promise(setImmediate);
+
+      controller.abort();
+      expect(mockWorkerProxy.cancel).toHaveBeenCalled();
+      await emit('onMessage', WorkerMessage.taskCancelled(id));
+
+      await expect(promise).rejects.toBeInstanceOf(TaskCancelledError);
+      expect(mockWorkerProxy.dispose).toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).not.toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
+    });
+
+    it('should replace the worker when it does not confirm the cancellation', async () => {
+      const controller = new AbortController();
+      (workerPool as any).cancelGracePeriod = 10;
+      const promise = workerPool.execute('pointer', 'data', {
+        signal: controller.signal,
+      });
+      await new Promise(setImmediate);
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(TaskCancelledError);
+      expect(mockWorkerProxy.dispose).not.toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove the queued task when the signal is aborted', async () => {
+      const controller = new AbortController();
       (workerPool as any).availableWorkers = [];
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
 
-      const result = workerPool.hasAvailableWorker();
+      const promise = workerPool.execute('pointer', 'data', {
+        signal: controller.signal,
+      });
+      await new Promise(setImmediate);
+      expect(workerPool.countQueuedTasks()).toBe(1);
 
-      expect(result).toBe(false);
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(TaskCancelledError);
+      expect(workerPool.countQueuedTasks()).toBe(0);
+      expect(mockWorkerProxy.cancel).not.toHaveBeenCalled();
     });
-  });
 
-  describe('hasActiveWorkers', () => {
-    it('should return true if there are active workers', () => {
-      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+    it('should not start the task when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
 
-      const result = workerPool.hasActiveWorkers();
+      await expect(
+        workerPool.execute('pointer', 'data', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(TaskCancelledError);
+      expect(mockWorkerProxy.load).not.toHaveBeenCalled();
+    });
 
-      expect(result).toBe(true);
+    it('should wait for a worker when all of them are busy', async () => {
+      (workerPool as any).availableWorkers = [];
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      expect(mockWorkerProxy.run).not.toHaveBeenCalled();
+
+      await workerPool.releaseWorker(id);
+      await new Promise(setImmediate);
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+
+      await expect(promise).resolves.toBe('result');
     });
 
-    it('should return false if there are no active workers', () => {
-      (workerPool as any).activeWorkersByPid = new Map();
+    it('should return the worker to the pool when loading fails', async () => {
+      mockWorkerProxy.load.mockRejectedValueOnce(new Error('load failure'));
 
-      const result = workerPool.hasActiveWorkers();
+      await expect(workerPool.execute('pointer')).rejects.toThrow('load failure');
+      expect((workerPool as any).activeWorkersByPid.size).toBe(0);
+      expect((workerPool as any).availableWorkers).toEqual([mockWorkerProxy]);
+    });
 
-      expect(result).toBe(false);
+    it('should not return the worker to the pool when its thread exits while loading', async () => {
+      mockWorkerProxy.load.mockRejectedValueOnce(new WorkerCrashedError(123, 3));
+
+      await expect(workerPool.execute('pointer')).rejects.toBeInstanceOf(
+        WorkerCrashedError
+      );
+      expect((workerPool as any).availableWorkers).toEqual([]);
     });
   });
 
-  describe('countAvailableWorkers', () => {
-    it('should return the number of available workers', () => {
-      workerPool.workerMaxCount = 3;
-      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
-      (workerPool as any).availableWorkers = [mockWorkerProxy, mockWorkerProxy];
+  describe('map', () => {
+    let tasks: { data: number; signal: AbortSignal; settle: (error?: Error) => void }[];
 
-      const result = workerPool.countAvailableWorkers();
+    beforeEach(() => {
+      tasks = [];
+      workerPool.workerMaxCount = 2;
+      jest.spyOn(workerPool, 'execute').mockImplementation(
+        (pointer, data: number, options) =>
+          new Promise((resolve, reject) => {
+            tasks.push({
+              data,
+              signal: options.signal,
+              settle: error => (error ? reject(error) : resolve(data * 10)),
+            });
+          })
+      );
+    });
 
-      expect(result).toBe(2);
+    const settle = async (data: number, error?: Error) => {
+      tasks.find(task => task.data === data).settle(error);
+      await new Promise(setImmediate);
+    };
+
+    it('should run at most the given number of tasks at once', async () => {
+      const promise = workerPool.map([1, 2, 3, 4], 'pointer', { concurrency: 3 });
+
+      expect(tasks.map(({ data }) => data)).toEqual([1, 2, 3]);
+
+      await settle(2);
+
+      expect(tasks.map(({ data }) => data)).toEqual([1, 2, 3, 4]);
+
+      await settle(4);
+      await settle(1);
+      await settle(3);
+
+      await expect(promise).resolves.toEqual([
+        { index: 0, status: 'fulfilled', value: 10 },
+        { index: 1, status: 'fulfilled', value: 20 },
+        { index: 2, status: 'fulfilled', value: 30 },
+        { index: 3, status: 'fulfilled', value: 40 },
+      ]);
+      expect(workerPool.execute).toHaveBeenCalledWith('pointer', 1, expect.any(Object));
     });
-  });
 
-  describe('countActiveWorkers', () => {
-    it('should return the number of active workers', () => {
-      (workerPool as any).activeWorkersByPid = new Map([
-        [1, mockWorkerProxy],
-        [2, mockWorkerProxy],
+    it('should use the maximum number of workers as the default concurrency', async () => {
+      workerPool.map([1, 2, 3], 'pointer');
+
+      expect(tasks.length).toBe(2);
+    });
+
+    it('should list the results as the tasks finish unless ordered', async () => {
+      const promise = workerPool.map([1, 2], 'pointer', { ordered: false });
+
+      await settle(2);
+      await settle(1);
+
+      await expect(promise).resolves.toEqual([
+        { index: 1, status: 'fulfilled', value: 20 },
+        { index: 0, status: 'fulfilled', value: 10 },
       ]);
+    });
 
-      const result = workerPool.countActiveWorkers();
+    it('should list the failed items and report the progress', async () => {
+      const error = new Error('failure');
+      const onProgress = jest.fn();
+      const promise = workerPool.map([1, 2, 3], 'pointer', { onProgress });
 
-      expect(result).toBe(2);
+      await settle(1, error);
+      await settle(2);
+      await settle(3);
+
+      await expect(promise).resolves.toEqual([
+        { index: 0, status: 'rejected', reason: error },
+        { index: 1, status: 'fulfilled', value: 20 },
+        { index: 2, status: 'fulfilled', value: 30 },
+      ]);
+      expect(onProgress.mock.calls).toEqual([
+        [{ total: 3, completed: 0, failed: 1 }],
+        [{ total: 3, completed: 1, failed: 1 }],
+        [{ total: 3, completed: 2, failed: 1 }],
+      ]);
+    });
+
+    it('should stop on the first failed item if requested', async () => {
+      const error = new Error('failure');
+      const promise = workerPool.map([1, 2, 3], 'pointer', { stopOnError: true });
+
+      const rejection = expect(promise).rejects.toBe(error);
+
+      await settle(1, error);
+
+      expect(tasks[1].signal.aborted).toBe(true);
+      await settle(2, new TaskCancelledError());
+
+      await rejection;
+      expect(tasks.length).toBe(2);
+    });
+
+    it('should cancel the tasks with the given signal', async () => {
+      const abortController = new AbortController();
+      workerPool.map([1, 2], 'pointer', { signal: abortController.signal });
+
+      abortController.abort();
+
+      expect(tasks.every(({ signal }) => signal.aborted)).toBe(true);
+    });
+
+    it('should resolve at once when there are no items', async () => {
+      await expect(workerPool.map([], 'pointer')).resolves.toEqual([]);
+      expect(workerPool.execute).not.toHaveBeenCalled();
     });
   });
 
-  describe('onWorkerRelease', () => {
-    it('should set the worker release handler', () => {
-      const handler = jest.fn();
+  describe('executeGraph', () => {
+    it('should execute the nodes of the graph on the pool', async () => {
+      jest
+        .spyOn(workerPool, 'execute')
+        .mockImplementation(async (pointer, data) => `${pointer}:${data}`);
 
-      workerPool.onWorkerRelease(handler);
+      const results = await workerPool.executeGraph({
+        fetch: { pointer: 'fetch', data: 1 },
+        parse: { pointer: 'parse', dependsOn: ['fetch'], input: ({ fetch }) => fetch },
+      });
+
+      expect(workerPool.execute).toHaveBeenCalledWith('fetch', 1, expect.any(Object));
+      expect(results.parse).toEqual({
+        status: TaskGraphNodeStatus.Resolved,
+        value: 'parse:fetch:1',
+      });
+    });
+
+    it('should reject with TaskGraphCycleError for a cyclic graph', async () => {
+      await expect(
+        workerPool.executeGraph({ fetch: { pointer: 'fetch', dependsOn: ['fetch'] } })
+      ).rejects.toBeInstanceOf(TaskGraphCycleError);
+    });
+  });
+
+  describe('retry', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      mockWorkerProxy.id = id;
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      workerPool.workerMaxCount = 1;
+      (getRetryDelay as jest.Mock).mockReturnValue(0);
+    });
+
+    // waits for the backoff timer of the previous attempt, so that the next one runs
+    const nextAttempt = () => new Promise(resolve => setTimeout(resolve, 10));
+    const reject = async (message: string) => {
+      await nextAttempt();
+      await emit('onMessage', WorkerMessage.taskRejected(id, new Error(message)));
+    };
+
+    it('should not retry rejected tasks by default', async () => {
+      const promise = workerPool.execute('pointer', 'data');
+      await reject('failure');
+
+      await expect(promise).rejects.toBeInstanceOf(TaskRejectedError);
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run the task again until it is resolved', async () => {
+      const promise = workerPool.execute('pointer', 'data', {
+        retry: { maxAttempts: 3 },
+      });
+      await reject('failure');
+      await reject('failure');
+      await nextAttempt();
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+
+      await expect(promise).resolves.toBe('result');
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(3);
+      expect(mockWorkerProxy.dispose).toHaveBeenCalledTimes(3);
+      expect(getRetryDelay).toHaveBeenNthCalledWith(1, { maxAttempts: 3 }, 1);
+      expect(getRetryDelay).toHaveBeenNthCalledWith(2, { maxAttempts: 3 }, 2);
+    });
+
+    it('should attach the attempt history to the final error', async () => {
+      const promise = workerPool.execute('pointer', 'data', {
+        retry: { maxAttempts: 2 },
+      });
+      await reject('first');
+      await reject('second');
+
+      const error = (await promise.catch(e => e)) as TaskRejectedError;
+      expect(error).toBeInstanceOf(TaskRejectedError);
+      expect(error.message).toBe('second');
+      expect(error.attempts).toHaveLength(2);
+      expect(error.attempts[0]).toEqual(
+        expect.objectContaining({
+          attempt: 1,
+          workerId: id,
+          error: expect.objectContaining({ message: 'first' }),
+        })
+      );
+      expect(error.attempts[1]).toEqual(
+        expect.objectContaining({
+          attempt: 2,
+          workerId: id,
+          error: expect.objectContaining({ message: 'second' }),
+        })
+      );
+    });
+
+    it('should not retry when the predicate rejects the error', async () => {
+      const retryIf = jest.fn(error => error.message === 'ECONNRESET');
+      const promise = workerPool.execute('pointer', 'data', {
+        retry: { maxAttempts: 3, retryIf },
+      });
+      await reject('ECONNRESET');
+      await reject('invalid block');
+
+      await expect(promise).rejects.toThrow('invalid block');
+      expect(retryIf).toHaveBeenCalledTimes(2);
+      expect(retryIf).toHaveBeenLastCalledWith(
+        expect.objectContaining({ message: 'invalid block' }),
+        2
+      );
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should merge the task policy into the pool policy', async () => {
+      (workerPool as any).retryPolicy = { maxAttempts: 5, initialDelay: 50 };
+      const promise = workerPool.execute('pointer', 'data', {
+        retry: { maxAttempts: 2 },
+      });
+      await reject('failure');
+      await reject('failure');
+
+      await expect(promise).rejects.toBeInstanceOf(TaskRejectedError);
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(2);
+      expect(getRetryDelay).toHaveBeenCalledWith({ maxAttempts: 2, initialDelay: 50 }, 1);
+    });
+
+    it('should not retry other failures', async () => {
+      const promise = workerPool.execute('pointer', 'data', {
+        timeout: 10,
+        retry: { maxAttempts: 3 },
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(TaskTimeoutError);
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject with TaskCancelledError when aborted while waiting for the retry', async () => {
+      (getRetryDelay as jest.Mock).mockReturnValue(60000);
+      const controller = new AbortController();
+      const promise = workerPool.execute('pointer', 'data', {
+        signal: controller.signal,
+        retry: { maxAttempts: 3 },
+      });
+      await reject('failure');
+      await new Promise(setImmediate);
+
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(TaskCancelledError);
+      expect(mockWorkerProxy.run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('elastic sizing', () => {
+    const setup = (options = {}) =>
+      workerPool.setup({ minThreads: 1, maxThreads: 3, ...options });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should create only the minimum number of workers on setup', async () => {
+      await setup();
+
+      expect(workerPool.workerMinCount).toBe(1);
+      expect(workerPool.workerMaxCount).toBe(3);
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect(workerPool.workerCount).toBe(1);
+      expect(workerPool.countAvailableWorkers()).toBe(3);
+    });
+
+    it('should create workers on demand up to the maximum', async () => {
+      let nextId = 1;
+      (WorkerProxy as any).mockImplementation(() => ({
+        ...mockWorkerProxy,
+        id: nextId++,
+      }));
+      await setup();
+
+      const workers = await Promise.all([
+        workerPool.getWorker('a'),
+        workerPool.getWorker('b'),
+        workerPool.getWorker('c'),
+      ]);
+      const pending = workerPool.getWorker('d');
+      await new Promise(setImmediate);
+
+      expect(workers.map(worker => worker.id)).toEqual([1, 2, 3]);
+      expect(WorkerProxy).toHaveBeenCalledTimes(3);
+      expect(workerPool.workerCount).toBe(3);
+      expect(workerPool.hasAvailableWorker()).toBe(false);
+      expect(workerPool.countQueuedTasks()).toBe(1);
+
+      await workerPool.releaseWorker(2);
+      await expect(pending).resolves.toEqual(expect.objectContaining({ id: 2 }));
+    });
+
+    it('should terminate idle workers down to the minimum', async () => {
+      jest.useFakeTimers();
+      const workers = [
+        { ...mockWorkerProxy, id: 1, remove: jest.fn().mockResolvedValue(0) },
+        { ...mockWorkerProxy, id: 2, remove: jest.fn().mockResolvedValue(0) },
+        { ...mockWorkerProxy, id: 3, remove: jest.fn().mockResolvedValue(0) },
+      ];
+      (workerPool as any).workerMinCount = 1;
+      (workerPool as any).idleTimeout = 1000;
+      workers.forEach(worker => (workerPool as any).addAvailableWorker(worker));
+
+      jest.advanceTimersByTime(999);
+      expect(workerPool.workerCount).toBe(3);
+
+      jest.advanceTimersByTime(1);
+      expect(workerPool.workerCount).toBe(1);
+      expect(workers[0].remove).toHaveBeenCalled();
+      expect(workers[1].remove).toHaveBeenCalled();
+      expect(workers[2].remove).not.toHaveBeenCalled();
+    });
+
+    it('should not terminate workers that were taken before the idle timeout', async () => {
+      jest.useFakeTimers();
+      (workerPool as any).workerMinCount = 0;
+      (workerPool as any).idleTimeout = 1000;
+      workerPool.workerMaxCount = 1;
+      mockWorkerProxy.id = 1;
+      (workerPool as any).addAvailableWorker(mockWorkerProxy);
+
+      await workerPool.getWorker('pointer');
+      jest.advanceTimersByTime(1000);
+
+      expect(mockWorkerProxy.remove).not.toHaveBeenCalled();
+      expect(workerPool.countActiveWorkers()).toBe(1);
+    });
+  });
+
+  describe('handleWorkerCrash', () => {
+    const id = 123;
+    const error = new WorkerCrashedError(id, 1);
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockWorkerProxy.id = id;
+      workerPool.workerMaxCount = 2;
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should register the crash handler on created workers', async () => {
+      await workerPool.setup({ threadsCount: 1 });
+
+      expect(mockWorkerProxy.onCrash).toHaveBeenCalledWith(expect.any(Function));
+    });
+
+    it('should purge the crashed worker and replace it after a delay', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      (workerPool as any).crashRespawnDelay = 100;
+      (workerPool as any).maxConsecutiveCrashes = 10;
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+
+      expect((workerPool as any).availableWorkers.length).toBe(0);
+      expect(WorkerProxy).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect((workerPool as any).availableWorkers.length).toBe(1);
+    });
+
+    it('should not spawn workers for the queued requests while the respawn is pending', async () => {
+      const otherProxy = createWorker(124);
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+      (workerPool as any).activeWorkersByPid.set(124, otherProxy);
+      (workerPool as any).crashRespawnDelay = 100;
+      (workerPool as any).maxConsecutiveCrashes = 10;
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+      workerPool.getWorker('pointer');
+      workerPool.getWorker('pointer');
+      await flushPromises();
+
+      expect(WorkerProxy).not.toHaveBeenCalled();
+      expect((workerPool as any).spawningCount).toBe(1);
+
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+
+      expect(WorkerProxy).toHaveBeenCalledTimes(1);
+      expect(workerPool.workerCount).toBe(2);
+      expect((workerPool as any).spawningCount).toBe(0);
+    });
+
+    it('should terminate the spawned worker that no longer fits in the pool', async () => {
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+      (workerPool as any).availableWorkers = [createWorker(124)];
+      const surplusWorker = {
+        ...createWorker(125),
+        remove: jest.fn().mockResolvedValue(0),
+      };
+      (WorkerProxy as any).mockImplementationOnce(() => surplusWorker);
+
+      (workerPool as any).spawnWorker();
+      await flushPromises();
+
+      expect(surplusWorker.remove).toHaveBeenCalled();
+      expect(workerPool.workerCount).toBe(2);
+      expect((workerPool as any).spawningCount).toBe(0);
+    });
+
+    it('should double the delay with each consecutive crash', () => {
+      const timeoutSpy = jest.spyOn(global, 'setTimeout');
+      const otherProxy = { id: 124 };
+      (workerPool as any).availableWorkers = [mockWorkerProxy, otherProxy];
+      (workerPool as any).crashRespawnDelay = 100;
+      (workerPool as any).maxConsecutiveCrashes = 10;
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+      (workerPool as any).handleWorkerCrash(124, otherProxy, error);
+
+      expect(timeoutSpy.mock.calls.map(([, delay]) => delay)).toEqual([100, 200]);
+      timeoutSpy.mockRestore();
+    });
+
+    it('should stop replacing workers after too many consecutive crashes', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      (workerPool as any).maxConsecutiveCrashes = 0;
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+      jest.runAllTimers();
+
+      expect(warnSpy).toHaveBeenCalled();
+      expect(WorkerProxy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should reject the queued and new requests once no worker is left', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      workerPool.workerMaxCount = 1;
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+      (workerPool as any).maxConsecutiveCrashes = 0;
+      const queued = workerPool.getWorker('pointer');
+
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+
+      await expect(queued).rejects.toBeInstanceOf(PoolExhaustedError);
+      await expect(queued).rejects.toHaveProperty('cause', error);
+      await expect(workerPool.getWorker('pointer')).rejects.toBeInstanceOf(
+        PoolExhaustedError
+      );
+      expect(workerPool.countQueuedTasks()).toBe(0);
+      expect(WorkerProxy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should ignore workers that are not a part of the pool', () => {
+      (workerPool as any).handleWorkerCrash(id, mockWorkerProxy, error);
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should reset the crash counter when a worker is released', async () => {
+      (workerPool as any).consecutiveCrashes = 3;
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+
+      await workerPool.releaseWorker(id);
+
+      expect((workerPool as any).consecutiveCrashes).toBe(0);
+    });
+  });
+
+  describe('heartbeats', () => {
+    const id = 123;
+    const setup = () =>
+      workerPool.setup({
+        threadsCount: 1,
+        heartbeatInterval: 1000,
+        maxMissedHeartbeats: 2,
+        crashRespawnDelay: 100,
+      });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockWorkerProxy.id = id;
+      mockWorkerProxy.missedHeartbeats = 0;
+      mockWorkerProxy.remove.mockResolvedValue(0);
+      (getWorkersCount as any).mockReturnValue(1);
+    });
+
+    afterEach(async () => {
+      await workerPool.close({ force: true });
+      jest.useRealTimers();
+    });
+
+    it('should send the heartbeats to the workers', async () => {
+      await setup();
+
+      jest.advanceTimersByTime(2000);
+
+      expect(mockWorkerProxy.ping).toHaveBeenCalledTimes(2);
+      expect(mockWorkerProxy.remove).not.toHaveBeenCalled();
+    });
+
+    it('should terminate and replace the worker that missed too many heartbeats', async () => {
+      const listener = jest.fn();
+      workerPool.on('workerUnresponsive', listener);
+      await setup();
+      mockWorkerProxy.missedHeartbeats = 2;
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockWorkerProxy.ping).not.toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+      expect(listener).toHaveBeenCalledWith(id, 2);
+      expect((workerPool as any).availableWorkers.length).toBe(0);
+
+      mockWorkerProxy.missedHeartbeats = 0;
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+
+      expect(WorkerProxy).toHaveBeenCalledTimes(2);
+      expect((workerPool as any).availableWorkers.length).toBe(1);
+    });
+
+    it('should fail the task of the unresponsive worker with WorkerUnresponsiveError', async () => {
+      await setup();
+      const promise = workerPool.execute('pointer', 'data');
+      await flushPromises();
+      expect(mockWorkerProxy.run).toHaveBeenCalled();
+      mockWorkerProxy.missedHeartbeats = 2;
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toBeInstanceOf(WorkerUnresponsiveError);
+      await expect(promise).rejects.toHaveProperty('missedHeartbeats', 2);
+      expect(mockWorkerProxy.dispose).not.toHaveBeenCalled();
+    });
+
+    it('should stop sending the heartbeats once the pool is closed', async () => {
+      await setup();
+
+      await workerPool.close({ force: true });
+      jest.advanceTimersByTime(2000);
+
+      expect(mockWorkerProxy.ping).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('drain', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      mockWorkerProxy.id = id;
+      workerPool.workerMaxCount = 1;
+    });
+
+    it('should resolve at once when there are no active tasks', async () => {
+      await expect(workerPool.drain()).resolves.toBeUndefined();
+    });
+
+    it('should wait for the active and queued tasks', async () => {
+      const drained = jest.fn();
+      (workerPool as any).activeWorkersByPid.set(id, mockWorkerProxy);
+      const queued = workerPool.getWorker('queued');
+
+      workerPool.drain().then(drained);
+      await workerPool.releaseWorker(id);
+      await queued;
+      await new Promise(setImmediate);
+      expect(drained).not.toHaveBeenCalled();
+
+      await workerPool.releaseWorker(id);
+      await new Promise(setImmediate);
+      expect(drained).toHaveBeenCalled();
+    });
+
+    it('should reject new tasks with PoolClosedError', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+
+      await workerPool.drain();
+
+      await expect(workerPool.getWorker('pointer')).rejects.toBeInstanceOf(
+        PoolClosedError
+      );
+      await expect(workerPool.execute('pointer')).rejects.toBeInstanceOf(PoolClosedError);
+    });
+  });
+
+  describe('close', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      mockWorkerProxy.id = id;
+      workerPool.workerMaxCount = 2;
+    });
+
+    it('should dispose and terminate idle workers', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+
+      await workerPool.close();
+
+      expect(mockWorkerProxy.close).toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+      expect(workerPool.workerCount).toBe(0);
+      await expect(workerPool.getWorker()).rejects.toBeInstanceOf(PoolClosedError);
+    });
+
+    it('should wait for the running tasks', async () => {
+      const closed = jest.fn();
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      workerPool.close().then(closed);
+      await new Promise(setImmediate);
+      expect(closed).not.toHaveBeenCalled();
+
+      await mockWorkerProxy.onMessage.mock.calls[0][0](
+        WorkerMessage.taskResolved(id, 'result')
+      );
+      await expect(promise).resolves.toBe('result');
+      await new Promise(setImmediate);
+      expect(closed).toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+    });
+
+    it('should fail the remaining tasks when forced', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      workerPool.workerMaxCount = 1;
+      const running = workerPool.execute('pointer', 'data');
+      const queued = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      await workerPool.close({ force: true });
+
+      await expect(running).rejects.toBeInstanceOf(PoolClosedError);
+      await expect(queued).rejects.toBeInstanceOf(PoolClosedError);
+      expect(mockWorkerProxy.close).not.toHaveBeenCalled();
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+      expect(workerPool.countActiveWorkers()).toBe(0);
+    });
+
+    it('should force the close when the timeout expires', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      const running = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+
+      await workerPool.close({ timeoutMs: 10 });
+
+      await expect(running).rejects.toBeInstanceOf(PoolClosedError);
+      expect(mockWorkerProxy.remove).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleShutdownSignals', () => {
+    it('should close the pool and raise the signal again', async () => {
+      const onceSpy = jest.spyOn(process, 'once').mockImplementation();
+      const killSpy = jest.spyOn(process, 'kill').mockImplementation();
+      const closeSpy = jest.spyOn(workerPool, 'close').mockResolvedValue();
+
+      workerPool.handleShutdownSignals({ signals: ['SIGTERM'], timeoutMs: 100 });
+      const [[signal, handler]] = onceSpy.mock.calls;
+      (handler as any)('SIGTERM');
+      await new Promise(setImmediate);
+
+      expect(signal).toBe('SIGTERM');
+      expect(closeSpy).toHaveBeenCalledWith({ timeoutMs: 100 });
+      expect(killSpy).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+
+      onceSpy.mockRestore();
+      killSpy.mockRestore();
+    });
+
+    it('should return a function removing the handlers', () => {
+      const offSpy = jest.spyOn(process, 'off');
+
+      const removeHandlers = workerPool.handleShutdownSignals();
+      removeHandlers();
+
+      expect(offSpy).toHaveBeenCalledWith('SIGTERM', expect.any(Function));
+      expect(offSpy).toHaveBeenCalledWith('SIGINT', expect.any(Function));
+      offSpy.mockRestore();
+    });
+  });
+
+  describe('removeWorkers', () => {
+    it('should call remove on all active and available workers', () => {
+      const activeWorker1 = { remove: jest.fn() };
+      const activeWorker2 = { remove: jest.fn() };
+      const availableWorker1 = { remove: jest.fn() };
+      const availableWorker2 = { remove: jest.fn() };
+
+      (workerPool as any).activeWorkersByPid = new Map([
+        [1, activeWorker1],
+        [2, activeWorker2],
+      ]);
+      (workerPool as any).availableWorkers = [availableWorker1, availableWorker2];
+
+      workerPool.removeWorkers();
+
+      expect(activeWorker1.remove).toHaveBeenCalled();
+      expect(activeWorker2.remove).toHaveBeenCalled();
+      expect(availableWorker1.remove).toHaveBeenCalled();
+      expect(availableWorker2.remove).toHaveBeenCalled();
+    });
+  });
+
+  describe('hasAvailableWorker', () => {
+    it('should return true if there is an available worker', () => {
+      workerPool.workerMaxCount = 3;
+      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+
+      const result = workerPool.hasAvailableWorker();
+
+      expect(result).toBe(true);
+    });
+
+    it('should return false if there are no available workers', () => {
+      workerPool.workerMaxCount = 1;
+      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+      (workerPool as any).availableWorkers = [];
+
+      const result = workerPool.hasAvailableWorker();
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('hasActiveWorkers', () => {
+    it('should return true if there are active workers', () => {
+      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+
+      const result = workerPool.hasActiveWorkers();
+
+      expect(result).toBe(true);
+    });
+
+    it('should return false if there are no active workers', () => {
+      (workerPool as any).activeWorkersByPid = new Map();
+
+      const result = workerPool.hasActiveWorkers();
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('countAvailableWorkers', () => {
+    it('should return the number of available workers', () => {
+      workerPool.workerMaxCount = 3;
+      (workerPool as any).activeWorkersByPid = new Map([[1, mockWorkerProxy]]);
+      (workerPool as any).availableWorkers = [mockWorkerProxy, mockWorkerProxy];
+
+      const result = workerPool.countAvailableWorkers();
+
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('countActiveWorkers', () => {
+    it('should return the number of active workers', () => {
+      (workerPool as any).activeWorkersByPid = new Map([
+        [1, mockWorkerProxy],
+        [2, mockWorkerProxy],
+      ]);
+
+      const result = workerPool.countActiveWorkers();
+
+      expect(result).toBe(2);
+    });
+  });
+
+  describe('onWorkerRelease', () => {
+    it('should subscribe the handler to the workerReleased event', async () => {
+      const handler = jest.fn();
+      const other = jest.fn();
+      (workerPool as any).activeWorkersByPid.set(123, mockWorkerProxy);
+      (workerPool as any).activeWorkersByPid.set(456, mockWorkerProxy);
+      workerPool.workerMaxCount = 2;
+
+      const unsubscribe = workerPool.onWorkerRelease(handler);
+      workerPool.on('workerReleased', other);
+      await workerPool.releaseWorker(123, 'data');
+      unsubscribe();
+      await workerPool.releaseWorker(456);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(123, 'data');
+      expect(other).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getMetrics', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      Object.assign(mockWorkerProxy, {
+        id,
+        taskCount: 1,
+        heapUsage: 2048,
+        eventLoopUtilization: 0.25,
+      });
+    });
+
+    it('should record the tasks, their duration and the queue wait', async () => {
+      (workerPool as any).availableWorkers = [mockWorkerProxy];
+      workerPool.workerMaxCount = 1;
+
+      const promise = workerPool.execute('parser', 'data');
+      await new Promise(setImmediate);
+      await mockWorkerProxy.onMessage.mock.calls[0][0](
+        WorkerMessage.taskResolved(id, 'result')
+      );
+      await promise;
+
+      const metrics = workerPool.getMetrics();
+
+      expect(metrics.tasks).toEqual({
+        parser: { started: 1, resolved: 1, rejected: 0, failed: 0 },
+      });
+      expect(metrics.taskDuration.count).toBe(1);
+      expect(metrics.queueWait.count).toBe(1);
+      expect(metrics.queuedTasks).toBe(0);
+      expect(metrics.workers).toEqual([
+        { id, active: false, taskCount: 1, heapUsage: 2048, eventLoopUtilization: 0.25 },
+      ]);
+    });
+
+    it('should record the spawned and crashed workers', async () => {
+      (getWorkersCount as any).mockReturnValue(2);
+      await workerPool.setup({ threadsCount: 2 });
+      jest.spyOn(workerPool as any, 'scheduleRespawn').mockImplementation();
+
+      (workerPool as any).handleWorkerCrash(
+        id,
+        mockWorkerProxy,
+        new WorkerCrashedError(id, 1)
+      );
+
+      const { workersSpawned, workersCrashed } = workerPool.getMetrics();
+      expect(workersSpawned).toBe(2);
+      expect(workersCrashed).toBe(1);
+    });
+  });
+
+  describe('connectWorkers', () => {
+    it('should connect both workers with the ports of a dedicated channel', () => {
+      const first = { id: 1, connect: jest.fn() } as any;
+      const second = { id: 2, connect: jest.fn() } as any;
+
+      workerPool.connectWorkers(first, second);
+
+      const [[firstPeerId, firstPort]] = first.connect.mock.calls;
+      const [[secondPeerId, secondPort]] = second.connect.mock.calls;
+      expect(firstPeerId).toBe(2);
+      expect(secondPeerId).toBe(1);
+      expect(firstPort).toBeInstanceOf(MessagePort);
+      expect(secondPort).toBeInstanceOf(MessagePort);
+      expect(firstPort).not.toBe(secondPort);
+      firstPort.close();
+    });
+  });
+
+  describe('affinity', () => {
+    beforeEach(() => {
+      (workerPool as any).affinity = true;
+      workerPool.workerMaxCount = 3;
+    });
+
+    it('should read the affinity mode from the options', async () => {
+      await workerPool.setup({ threadsCount: 1, affinity: false });
+
+      expect((workerPool as any).affinity).toBe(false);
+    });
+
+    it('should prefer the worker with the pointer loaded and skip loading it', async () => {
+      const cold = createWorker(1);
+      const other = createWorker(2, 'other');
+      const warm = createWorker(3, 'parser');
+      (workerPool as any).availableWorkers = [cold, other, warm];
+
+      const worker = await workerPool.getWorker('parser');
+
+      expect(worker).toBe(warm);
+      expect(warm.load).not.toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([cold, other]);
+      expect((workerPool as any).activeWorkersByPid.get(3)).toBe(warm);
+    });
+
+    it('should load the pointer in the first worker when none has it loaded', async () => {
+      const other = createWorker(2, 'other');
+      const cold = createWorker(1);
+      (workerPool as any).availableWorkers = [other, cold];
+
+      const worker = await workerPool.getWorker('parser');
+
+      expect(worker).toBe(other);
+      expect(other.load).toHaveBeenCalledWith('parser');
+    });
+
+    it('should keep the resource loaded when the worker is released', async () => {
+      const warm = createWorker(3, 'parser');
+      (workerPool as any).activeWorkersByPid.set(3, warm);
+
+      await workerPool.releaseWorker(3);
+
+      expect(warm.detach).toHaveBeenCalled();
+      expect(warm.dispose).not.toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([warm]);
+    });
+
+    it('should recycle the warm worker that uses too much memory', async () => {
+      const warm = {
+        ...createWorker(3, 'parser'),
+        heapUsage: 2048,
+        close: jest.fn().mockResolvedValue(undefined),
+        remove: jest.fn(),
+      };
+      (workerPool as any).activeWorkersByPid.set(3, warm);
+      (workerPool as any).maxWorkerHeapUsage = 1024;
+
+      await workerPool.releaseWorker(3);
+
+      expect(warm.detach).toHaveBeenCalled();
+      expect(warm.close).toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([]);
+    });
+
+    it('should load and dispose the resource for every task without affinity', async () => {
+      const warm = createWorker(3, 'parser');
+      (workerPool as any).affinity = false;
+      (workerPool as any).availableWorkers = [warm];
+
+      await workerPool.getWorker('parser');
+      await workerPool.releaseWorker(3);
+
+      expect(warm.load).toHaveBeenCalledWith('parser');
+      expect(warm.dispose).toHaveBeenCalled();
+      expect(warm.detach).not.toHaveBeenCalled();
+    });
+
+    it('should count the warm workers by pointer', () => {
+      (workerPool as any).availableWorkers = [
+        createWorker(1),
+        createWorker(2, 'parser'),
+        createWorker(3, 'parser'),
+        createWorker(4, 'other'),
+      ];
+
+      expect(workerPool.getWarmWorkerCounts()).toEqual({ parser: 2, other: 1 });
+    });
+  });
+
+  describe('warm reservations', () => {
+    beforeEach(() => {
+      workerPool.workerMaxCount = 3;
+    });
+
+    it('should preload and reserve the workers during setup', async () => {
+      (WorkerProxy as any)
+        .mockImplementationOnce(() => createWorker(1))
+        .mockImplementationOnce(() => createWorker(2));
+      (getWorkersCount as jest.Mock).mockReturnValue(3);
+
+      await workerPool.setup({
+        threadsCount: 3,
+        minThreads: 1,
+        warmReservations: { parser: 2 },
+      });
+      const [first, second] = (workerPool as any).availableWorkers;
+
+      expect((workerPool as any).workerMinCount).toBe(2);
+      expect(first.load).toHaveBeenCalledWith('parser');
+      expect(second.load).toHaveBeenCalledWith('parser');
+      expect((workerPool as any).reservedPointers.get(first)).toBe('parser');
+      expect((workerPool as any).reservedPointers.get(second)).toBe('parser');
+    });
+
+    it('should throw TooManyWarmReservationsError when no worker stays unreserved', async () => {
+      (getWorkersCount as jest.Mock).mockReturnValue(2);
+
+      await expect(
+        workerPool.setup({ threadsCount: 2, warmReservations: { parser: 1, writer: 1 } })
+      ).rejects.toThrow(TooManyWarmReservationsError);
+    });
+
+    it('should keep the reserved workers for their pointer', async () => {
+      const reserved = createWorker(1, 'parser');
+      const other = createWorker(2);
+      (workerPool as any).availableWorkers = [reserved, other];
+      (workerPool as any).reservedPointers.set(reserved, 'parser');
+
+      const writer = await workerPool.getWorker('writer');
+      const parser = await workerPool.getWorker('parser');
+
+      expect(writer).toBe(other);
+      expect(parser).toBe(reserved);
+      expect(reserved.load).not.toHaveBeenCalled();
+    });
+
+    it('should serve the request of the reserved pointer while other requests wait', async () => {
+      const reserved = createWorker(1, 'parser');
+      const busy = createWorker(2);
+      (workerPool as any).availableWorkers = [reserved];
+      (workerPool as any).reservedPointers.set(reserved, 'parser');
+      (workerPool as any).activeWorkersByPid.set(2, busy);
+      workerPool.workerMaxCount = 2;
+
+      const writer = workerPool.getWorker('writer');
+      const parser = await workerPool.getWorker('parser');
+
+      expect(parser).toBe(reserved);
+      expect((workerPool as any).taskQueue.size).toBe(1);
+
+      await workerPool.releaseWorker(2);
+
+      await expect(writer).resolves.toBe(busy);
+      expect(busy.load).toHaveBeenCalledWith('writer');
+    });
+
+    it('should keep the resource loaded when the reserved worker is released', async () => {
+      const reserved = createWorker(1, 'parser');
+      (workerPool as any).activeWorkersByPid.set(1, reserved);
+      (workerPool as any).reservedPointers.set(reserved, 'parser');
+
+      await workerPool.releaseWorker(1);
+
+      expect(reserved.detach).toHaveBeenCalled();
+      expect(reserved.dispose).not.toHaveBeenCalled();
+      expect((workerPool as any).availableWorkers).toEqual([reserved]);
+    });
+
+    it('should reserve the replacement of the crashed reserved worker', async () => {
+      jest.useFakeTimers();
+      const reserved = createWorker(123, 'parser');
+      (workerPool as any).availableWorkers = [reserved];
+      (workerPool as any).reservedPointers.set(reserved, 'parser');
+      (workerPool as any).warmReservations = { parser: 1 };
+      (workerPool as any).crashRespawnDelay = 100;
+      (workerPool as any).maxConsecutiveCrashes = 10;
+
+      (workerPool as any).handleWorkerCrash(
+        123,
+        reserved,
+        new WorkerCrashedError(123, 1)
+      );
+      jest.advanceTimersByTime(100);
+      await flushPromises();
+      jest.useRealTimers();
+
+      expect((workerPool as any).reservedPointers.has(reserved)).toBe(false);
+      expect((workerPool as any).reservedPointers.get(mockWorkerProxy)).toBe('parser');
+      expect(mockWorkerProxy.load).toHaveBeenCalledWith('parser');
+    });
+  });
+
+  describe('events', () => {
+    const id = 123;
+
+    beforeEach(() => {
+      mockWorkerProxy.id = id;
+      (getWorkersCount as any).mockReturnValue(1);
+    });
+
+    it('should emit the lifecycle events of a resolved task', async () => {
+      const events = [];
+      const record =
+        (name: string) =>
+        (...args: unknown[]) => {
+          events.push([name, ...args]);
+        };
+      workerPool.on('workerCreated', record('workerCreated'));
+      workerPool.on('workerLoaded', record('workerLoaded'));
+      workerPool.on('taskStarted', record('taskStarted'));
+      workerPool.on('taskProgress', record('taskProgress'));
+      workerPool.on('taskResolved', record('taskResolved'));
+      workerPool.on('workerReleased', record('workerReleased'));
+
+      await workerPool.setup({ threadsCount: 1 });
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+      await emit('onMessage', WorkerMessage.taskProgress(id, 50));
+      await emit('onMessage', WorkerMessage.taskResolved(id, 'result'));
+      await promise;
+      await new Promise(setImmediate);
+
+      expect(events).toEqual([
+        ['workerCreated', id],
+        ['workerLoaded', id, 'pointer'],
+        ['taskStarted', id, 'pointer'],
+        ['taskProgress', id, 50],
+        ['taskResolved', id, 'result'],
+        ['workerReleased', id, undefined],
+      ]);
+    });
+
+    it('should emit taskRejected with the error of the task', async () => {
+      const listener = jest.fn();
+      await workerPool.setup({ threadsCount: 1 });
+      workerPool.on('taskRejected', listener);
+
+      const promise = workerPool.execute('pointer', 'data');
+      await new Promise(setImmediate);
+      await emit('onMessage', WorkerMessage.taskRejected(id, new Error('failure')));
+
+      await expect(promise).rejects.toBeInstanceOf(TaskRejectedError);
+      expect(listener).toHaveBeenCalledWith(id, expect.any(TaskRejectedError));
+    });
+
+    it('should emit workerExited when a worker thread exits', async () => {
+      const listener = jest.fn();
+      workerPool.on('workerExited', listener);
+
+      await workerPool.setup({ threadsCount: 1 });
+      await emit('onExit', id, 1);
+
+      expect(listener).toHaveBeenCalledWith(id, 1);
+    });
+
+    it('should emit poolDrained once the tasks are finished', async () => {
+      const listener = jest.fn();
+      await workerPool.setup({ threadsCount: 1 });
+      await workerPool.getWorker('pointer');
+      workerPool.once('poolDrained', listener);
+
+      const drained = workerPool.drain();
+      expect(listener).not.toHaveBeenCalled();
+
+      await workerPool.releaseWorker(id);
+      await drained;
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop calling unsubscribed listeners', async () => {
+      const listener = jest.fn();
+      workerPool.on('workerCreated', listener);
+      workerPool.off('workerCreated', listener);
+
+      await workerPool.setup({ threadsCount: 1 });
 
-      expect((workerPool as any).workerReleaseHandler).toBe(handler);
+      expect(listener).not.toHaveBeenCalled();
     });
   });
 });
@@ -6,6 +6,11 @@ import {
   WorkerMessageName,
   WorkerMessageType,
 } from '../worker-message';
+import {
+  DataNotPassedError,
+  WorkerCrashedError,
+  WorkerOutOfMemoryError,
+} from '../worker.errors';
 
 jest.mock('worker_threads', () => {
   const mockPostMessage = jest.fn();
@@ -14,6 +19,7 @@ jest.mock('worker_threads', () => {
     removeAllListeners: jest.fn(),
     on: jest.fn(),
     postMessage: mockPostMessage,
+    terminate: jest.fn(),
   };
 
   return {
@@ -35,6 +41,79 @@ describe('WorkerProxy', () => {
     jest.clearAllMocks();
   });
 
+  describe('constructor', () => {
+    it('should pass the thread options to the worker', () => {
+      const resourceLimits = { maxOldGenerationSizeMb: 256 };
+      const env = { RPC_URL: 'http://localhost' };
+      new WorkerProxy('sharedData', {
+        workerLoaderPath: 'workerLoaderPath',
+        resourceLimits,
+        env,
+        execArgv: ['--inspect'],
+        argv: ['--verbose'],
+      });
+
+      expect(Worker).toHaveBeenLastCalledWith(expect.any(String), {
+        workerData: {
+          sharedData: 'sharedData',
+          options: {
+            workerLoaderPath: 'workerLoaderPath',
+            workerLoaderDependenciesPath: undefined,
+          },
+        },
+        resourceLimits,
+        env,
+        execArgv: ['--inspect'],
+        argv: ['--verbose'],
+        stdout: false,
+        stderr: false,
+      });
+    });
+
+    it('should pass the shared store state to the worker', () => {
+      const sharedStore = {
+        schema: { counters: ['processed'] },
+        locks: new SharedArrayBuffer(0),
+        values: new SharedArrayBuffer(8),
+      };
+      new WorkerProxy('sharedData', {}, sharedStore);
+
+      expect(Worker).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          workerData: expect.objectContaining({ sharedStore }),
+        })
+      );
+    });
+
+    it('should pass the output of the worker to the handlers', () => {
+      const stdout = jest.fn();
+      const stderr = jest.fn();
+      const mockStream = () => ({ on: jest.fn() });
+      Object.assign(mockWorker, { stdout: mockStream(), stderr: mockStream() });
+
+      new WorkerProxy('sharedData', { stdout, stderr });
+      (mockWorker.stdout.on as jest.Mock).mock.calls[0][1](Buffer.from('log'));
+      (mockWorker.stderr.on as jest.Mock).mock.calls[0][1](Buffer.from('error'));
+
+      expect(Worker).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({ stdout: true, stderr: true })
+      );
+      expect(stdout).toHaveBeenCalledWith(123, 'log');
+      expect(stderr).toHaveBeenCalledWith(123, 'error');
+    });
+  });
+
+  describe('eventLoopUtilization', () => {
+    it('should return the event loop utilization of the worker thread', () => {
+      const eventLoopUtilization = jest.fn().mockReturnValue({ utilization: 0.75 });
+      (workerProxy as any).worker = { performance: { eventLoopUtilization } };
+
+      expect(workerProxy.eventLoopUtilization).toBe(0.75);
+    });
+  });
+
   describe('setup', () => {
     it('should resolve the promise on successful setup', async () => {
       const setupPromise = workerProxy.setup();
@@ -68,6 +147,16 @@ describe('WorkerProxy', () => {
       expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
       expect(mockWorker.postMessage).toHaveBeenCalledWith(expect.anything());
     });
+
+    it('should reject with the rehydrated error of the worker', async () => {
+      const setupPromise = workerProxy.setup();
+      const error = new RangeError('Invalid config');
+      const messageHandler = (mockWorker as any).on.mock.calls[0][1];
+      messageHandler(WorkerMessage.setupFailure(123, error).toJson());
+
+      await expect(setupPromise).rejects.toBeInstanceOf(RangeError);
+      await expect(setupPromise).rejects.toThrow('Invalid config');
+    });
   });
 
   describe('load', () => {
@@ -85,6 +174,8 @@ describe('WorkerProxy', () => {
       await expect(loadPromise).resolves.toBeUndefined();
       expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
       expect(mockWorker.postMessage).toHaveBeenCalledWith(expect.anything());
+      expect(workerProxy.pointer).toBe('pointer');
+      expect(workerProxy.isLoaded).toBe(true);
     });
 
     it('should reject the promise on load failure', async () => {
@@ -102,6 +193,21 @@ describe('WorkerProxy', () => {
       await expect(loadPromise).rejects.toEqual(mockErrorMessage);
       expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
       expect(mockWorker.postMessage).toHaveBeenCalledWith(expect.anything());
+      expect(workerProxy.isLoaded).toBe(false);
+    });
+
+    it('should reject with WorkerCrashedError when the thread exits while loading', async () => {
+      const loadPromise = workerProxy.load('pointer');
+      const listeners = (mockWorker as any).on.mock.calls;
+      const uncaughtError = new Error('uncaught');
+
+      listeners.find(([event]) => event === 'error')[1](uncaughtError);
+      listeners.find(([event]) => event === 'exit')[1](3);
+
+      await expect(loadPromise).rejects.toThrow(
+        new WorkerCrashedError(123, 3, uncaughtError)
+      );
+      expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -120,6 +226,20 @@ describe('WorkerProxy', () => {
       await expect(disposePromise).resolves.toBeUndefined();
       expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
       expect(mockWorker.postMessage).toHaveBeenCalledWith(expect.anything());
+      expect(workerProxy.isLoaded).toBe(false);
+    });
+
+    it('should keep the heap usage reported by the worker', async () => {
+      const disposePromise = workerProxy.dispose();
+      const messageHandler = (mockWorker as any).on.mock.calls[0][1];
+      messageHandler({
+        type: WorkerMessageType.System,
+        name: WorkerMessageName.DisposeComplete,
+        data: 1024,
+      });
+      await disposePromise;
+
+      expect(workerProxy.heapUsage).toBe(1024);
     });
 
     it('should reject the promise on disposal failure', async () => {
@@ -138,6 +258,75 @@ describe('WorkerProxy', () => {
       expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
       expect(mockWorker.postMessage).toHaveBeenCalledWith(expect.anything());
     });
+
+    it('should reject with WorkerCrashedError when the thread exits while disposing', async () => {
+      const disposePromise = workerProxy.dispose();
+
+      (mockWorker as any).on.mock.calls.find(([event]) => event === 'exit')[1](1);
+
+      await expect(disposePromise).rejects.toBeInstanceOf(WorkerCrashedError);
+    });
+  });
+
+  describe('detach', () => {
+    it('should remove the task handlers and keep the resource loaded', async () => {
+      (workerProxy as any)._isLoaded = true;
+      const handler = jest.fn();
+      workerProxy.onMessage(handler);
+
+      const detachPromise = workerProxy.detach();
+      const [, messageHandler] = (mockWorker as any).on.mock.calls
+        .filter(([event]) => event === 'message')
+        .pop();
+      messageHandler({
+        type: WorkerMessageType.System,
+        name: WorkerMessageName.DetachComplete,
+        data: 2048,
+      });
+
+      await expect(detachPromise).resolves.toBeUndefined();
+      expect(mockWorker.removeAllListeners).toHaveBeenCalledTimes(2);
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.detach(workerProxy.id).toJson()
+      );
+      expect(handler).not.toHaveBeenCalled();
+      expect(workerProxy.isLoaded).toBe(true);
+      expect(workerProxy.heapUsage).toBe(2048);
+    });
+  });
+
+  describe('close', () => {
+    it('should resolve the promise on successful close', async () => {
+      const closePromise = workerProxy.close();
+      const mockMessageContent = {
+        type: WorkerMessageType.System,
+        name: WorkerMessageName.CloseComplete,
+        data: null,
+      };
+
+      const messageHandler = (mockWorker as any).on.mock.calls[0][1];
+      messageHandler(mockMessageContent);
+
+      await expect(closePromise).resolves.toBeUndefined();
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.close(workerProxy.id).toJson()
+      );
+    });
+
+    it('should reject the promise on close failure', async () => {
+      const closePromise = workerProxy.close();
+      const mockErrorMessage = 'Failed to close';
+      const mockMessageContent = {
+        type: WorkerMessageType.System,
+        name: WorkerMessageName.CloseFailure,
+        data: mockErrorMessage,
+      };
+
+      const messageHandler = (mockWorker as any).on.mock.calls[0][1];
+      messageHandler(mockMessageContent);
+
+      await expect(closePromise).rejects.toEqual(mockErrorMessage);
+    });
   });
 
   describe('run', () => {
@@ -146,9 +335,152 @@ describe('WorkerProxy', () => {
       workerProxy.run(testData);
 
       expect(mockWorker.postMessage).toHaveBeenCalledWith(
-        WorkerMessage.runTask(workerProxy.id, testData).toJson()
+        WorkerMessage.runTask(workerProxy.id, testData).toJson(),
+        undefined
+      );
+    });
+
+    it('should transfer the given objects to the worker', () => {
+      const buffer = new ArrayBuffer(8);
+      workerProxy.run({ buffer }, [buffer]);
+
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.runTask(workerProxy.id, { buffer }).toJson(),
+        [buffer]
+      );
+    });
+
+    it('should count the tasks run by the worker', () => {
+      workerProxy.run();
+      workerProxy.run();
+
+      expect(workerProxy.taskCount).toBe(2);
+    });
+  });
+
+  describe('send', () => {
+    const findListener = (event: string) =>
+      (mockWorker as any).on.mock.calls.filter(([name]) => name === event).pop()[1];
+    const acknowledge = (error?: Error) =>
+      (mockWorker as any).on.mock.calls
+        .filter(([name]) => name === 'message')
+        .forEach(([, listener]) =>
+          listener(WorkerMessage.dataPassed(workerProxy.id, error).toJson())
+        );
+
+    it('should send the data to the worker and resolve once it is acknowledged', async () => {
+      const buffer = new ArrayBuffer(8);
+      const promise = workerProxy.send({ buffer }, [buffer]);
+
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.use(workerProxy.id, { buffer }).toJson(),
+        [buffer]
+      );
+
+      acknowledge();
+
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    it('should settle the pending data in order of sending', async () => {
+      const first = workerProxy.send('first');
+      const second = workerProxy.send('second');
+
+      acknowledge();
+      acknowledge(new RangeError('invalid batch'));
+
+      await expect(first).resolves.toBeUndefined();
+      await expect(second).rejects.toBeInstanceOf(RangeError);
+      await expect(second).rejects.toThrow('invalid batch');
+    });
+
+    it('should reject with DataNotPassedError when the thread exits', async () => {
+      const promise = workerProxy.send('data');
+
+      findListener('exit')(1);
+
+      await expect(promise).rejects.toBeInstanceOf(DataNotPassedError);
+    });
+
+    it('should keep the data listeners when other listeners are removed', async () => {
+      const promise = workerProxy.send('data');
+      (mockWorker as any).on.mockClear();
+      workerProxy.dispose();
+
+      acknowledge();
+
+      await expect(promise).resolves.toBeUndefined();
+    });
+  });
+
+  describe('connect', () => {
+    it('should transfer the port of the channel to the worker', () => {
+      const port = {} as any;
+      workerProxy.connect(456, port);
+
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.connectPeer(workerProxy.id, 456, port).toJson(),
+        [port]
+      );
+    });
+  });
+
+  describe('ping', () => {
+    const pong = () =>
+      (mockWorker as any).on.mock.calls
+        .filter(([name]) => name === 'message')
+        .forEach(([, listener]) => listener(WorkerMessage.pong(workerProxy.id).toJson()));
+
+    it('should send the heartbeat to the worker', () => {
+      workerProxy.ping();
+
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.ping(workerProxy.id).toJson()
+      );
+      expect(workerProxy.missedHeartbeats).toBe(0);
+    });
+
+    it('should count the heartbeats missed in a row', () => {
+      workerProxy.ping();
+      workerProxy.ping();
+      workerProxy.ping();
+
+      expect(workerProxy.missedHeartbeats).toBe(2);
+
+      pong();
+      workerProxy.ping();
+
+      expect(workerProxy.missedHeartbeats).toBe(0);
+    });
+
+    it('should keep the heartbeat listener when other listeners are removed', () => {
+      workerProxy.ping();
+      workerProxy.ping();
+      (mockWorker as any).on.mockClear();
+      workerProxy.dispose();
+
+      pong();
+
+      expect(workerProxy.missedHeartbeats).toBe(0);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should send the cancellation to the worker', () => {
+      workerProxy.cancel();
+
+      expect(mockWorker.postMessage).toHaveBeenCalledWith(
+        WorkerMessage.cancelTask(workerProxy.id).toJson()
       );
     });
+
+    it('should not treat the cancelled instance as loaded', () => {
+      (workerProxy as any)._isLoaded = true;
+
+      workerProxy.cancel();
+
+      expect(workerProxy.isLoaded).toBe(false);
+    });
   });
 
   describe('onMessage', () => {
@@ -217,5 +549,93 @@ describe('WorkerProxy', () => {
 
       expect(mockExitHandler).toHaveBeenCalledWith(workerProxy.id, testExitCode);
     });
+
+    it('should keep the ID of the worker after the thread has exited', () => {
+      const mockExitHandler = jest.fn();
+      workerProxy.onExit(mockExitHandler);
+      // the thread ID is reset to -1 once the thread exits
+      (mockWorker as any).threadId = -1;
+
+      const exitHandler = (mockWorker as any).on.mock.calls.find(
+        ([event]) => event === 'exit'
+      )[1];
+      exitHandler(1);
+
+      expect(workerProxy.id).toBe(123);
+      expect(mockExitHandler).toHaveBeenCalledWith(123, 1);
+      (mockWorker as any).threadId = 123;
+    });
+
+    it('should keep the handler when the listeners are removed', () => {
+      const mockExitHandler = jest.fn();
+      workerProxy.onExit(mockExitHandler);
+      (mockWorker as any).on.mockClear();
+
+      (workerProxy as any).removeListeners();
+
+      const exitHandler = (mockWorker as any).on.mock.calls.find(
+        ([event]) => event === 'exit'
+      )[1];
+      exitHandler(0);
+
+      expect(mockExitHandler).toHaveBeenCalledWith(workerProxy.id, 0);
+    });
+  });
+
+  describe('onCrash', () => {
+    const findListener = (event: string) =>
+      (mockWorker as any).on.mock.calls.filter(([name]) => name === event).pop()[1];
+
+    it('should invoke the handler with WorkerCrashedError when the worker exits', () => {
+      const mockCrashHandler = jest.fn();
+      const testError = new Error('Test error');
+
+      workerProxy.onCrash(mockCrashHandler);
+      findListener('error')(testError);
+      findListener('exit')(1);
+
+      const [id, error] = mockCrashHandler.mock.calls[0];
+      expect(id).toBe(workerProxy.id);
+      expect(error).toBeInstanceOf(WorkerCrashedError);
+      expect(error.code).toBe(1);
+      expect(error.error).toBe(testError);
+    });
+
+    it('should invoke the handler with WorkerOutOfMemoryError when the worker runs out of memory', () => {
+      const mockCrashHandler = jest.fn();
+      const testError = Object.assign(new Error('JS heap out of memory'), {
+        code: 'ERR_WORKER_OUT_OF_MEMORY',
+      });
+
+      workerProxy.onCrash(mockCrashHandler);
+      findListener('error')(testError);
+      findListener('exit')(1);
+
+      const [, error] = mockCrashHandler.mock.calls[0];
+      expect(error).toBeInstanceOf(WorkerOutOfMemoryError);
+      expect(error).toBeInstanceOf(WorkerCrashedError);
+      expect(error.error).toBe(testError);
+    });
+
+    it('should not invoke the handler when the worker was removed', async () => {
+      const mockCrashHandler = jest.fn();
+
+      workerProxy.onCrash(mockCrashHandler);
+      await workerProxy.remove();
+      findListener('exit')(1);
+
+      expect(mockCrashHandler).not.toHaveBeenCalled();
+    });
+
+    it('should keep the crash listeners when other listeners are removed', async () => {
+      const mockCrashHandler = jest.fn();
+
+      workerProxy.onCrash(mockCrashHandler);
+      const exitListener = findListener('exit');
+      (mockWorker as any).on.mockClear();
+      workerProxy.setup();
+
+      expect((mockWorker as any).on).toHaveBeenCalledWith('exit', exitListener);
+    });
   });
 });
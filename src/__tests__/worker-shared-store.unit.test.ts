@@ -0,0 +1,109 @@
+import { WorkerSharedStore } from '../worker-shared-store';
+import { SharedStoreEntryNotFoundError } from '../worker.errors';
+
+describe('WorkerSharedStore', () => {
+  const schema = {
+    counters: ['processed', 'cursor'],
+    records: { progress: { fields: ['start', 'end', 'current'], size: 2 } },
+    ringBuffers: { blocks: { capacity: 3 } },
+  };
+  let store: WorkerSharedStore;
+
+  beforeEach(() => {
+    store = WorkerSharedStore.create(schema);
+  });
+
+  it('should allocate shared memory for all entries', () => {
+    const { state } = store;
+
+    expect(state.schema).toBe(schema);
+    expect(state.locks).toBeInstanceOf(SharedArrayBuffer);
+    expect(state.locks.byteLength).toBe(2 * 4);
+    // 2 counters, 2 records of 3 fields, ring buffer head, length and 3 items
+    expect(state.values.byteLength).toBe((2 + 6 + 5) * 8);
+  });
+
+  it('should share the memory with stores created from the same state', () => {
+    const copy = new WorkerSharedStore(store.state);
+
+    store.counter('processed').add(5);
+    store.recordSet('progress').set(1, { current: 10 });
+    store.ringBuffer('blocks').push(100);
+
+    expect(copy.counter('processed').get()).toBe(5);
+    expect(copy.recordSet('progress').get(1)).toEqual({ start: 0, end: 0, current: 10 });
+    expect(copy.ringBuffer('blocks').shift()).toBe(100);
+  });
+
+  it('should throw SharedStoreEntryNotFoundError for entries missing in the schema', () => {
+    expect(() => store.counter('unknown')).toThrow(SharedStoreEntryNotFoundError);
+    expect(() => store.recordSet('unknown')).toThrow(SharedStoreEntryNotFoundError);
+    expect(() => store.ringBuffer('unknown')).toThrow(SharedStoreEntryNotFoundError);
+  });
+
+  describe('SharedCounter', () => {
+    it('should set, add and compare values', () => {
+      const counter = store.counter('cursor');
+
+      counter.set(10);
+      expect(counter.add()).toBe(11);
+      expect(counter.add(-3)).toBe(8);
+      expect(counter.compareAndSet(7, 20)).toBe(false);
+      expect(counter.compareAndSet(8, 20)).toBe(true);
+      expect(counter.get()).toBe(20);
+    });
+
+    it('should keep the counters independent', () => {
+      store.counter('processed').add(2);
+
+      expect(store.counter('cursor').get()).toBe(0);
+    });
+  });
+
+  describe('SharedRecords', () => {
+    it('should update only the given fields', () => {
+      const records = store.recordSet('progress');
+
+      records.set(0, { start: 1, end: 100 });
+      records.set(0, { current: 50 });
+
+      expect(records.get(0)).toEqual({ start: 1, end: 100, current: 50 });
+      expect(records.get(1)).toEqual({ start: 0, end: 0, current: 0 });
+    });
+
+    it('should throw RangeError when the index is out of range', () => {
+      const records = store.recordSet('progress');
+
+      expect(() => records.get(2)).toThrow(RangeError);
+      expect(() => records.set(-1, { current: 1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('SharedRingBuffer', () => {
+    it('should return the items in order of arrival', () => {
+      const ringBuffer = store.ringBuffer('blocks');
+
+      ringBuffer.push(1);
+      ringBuffer.push(2);
+      expect(ringBuffer.shift()).toBe(1);
+      ringBuffer.push(3);
+      ringBuffer.push(4);
+
+      expect(ringBuffer.length).toBe(3);
+      expect(ringBuffer.shift()).toBe(2);
+      expect(ringBuffer.shift()).toBe(3);
+      expect(ringBuffer.shift()).toBe(4);
+      expect(ringBuffer.shift()).toBeUndefined();
+    });
+
+    it('should not accept items when full', () => {
+      const ringBuffer = store.ringBuffer('blocks');
+
+      expect(ringBuffer.push(1)).toBe(true);
+      expect(ringBuffer.push(2)).toBe(true);
+      expect(ringBuffer.push(3)).toBe(true);
+      expect(ringBuffer.push(4)).toBe(false);
+      expect(ringBuffer.length).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { WorkerTaskGraph } from '../worker-task-graph';
+import { TaskGraphFailurePolicy, TaskGraphNodeStatus } from '../worker.enums';
+import {
+  TaskCancelledError,
+  TaskGraphCycleError,
+  UnknownTaskDependencyError,
+} from '../worker.errors';
+import { TaskOptions } from '../worker.types';
+
+describe('WorkerTaskGraph', () => {
+  let tasks: {
+    pointer: string;
+    data: unknown;
+    options: TaskOptions;
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+  }[];
+  let execute: jest.Mock;
+
+  beforeEach(() => {
+    tasks = [];
+    execute = jest.fn(
+      (pointer: string, data: unknown, options: TaskOptions) =>
+        new Promise((resolve, reject) => {
+          tasks.push({ pointer, data, options, resolve, reject });
+          options.signal.addEventListener('abort', () =>
+            reject(new TaskCancelledError())
+          );
+        })
+    );
+  });
+
+  const findTask = (pointer: string) => tasks.find(task => task.pointer === pointer);
+  const flush = () => new Promise(setImmediate);
+
+  describe('constructor', () => {
+    it('should throw UnknownTaskDependencyError for an unknown dependency', () => {
+      expect(
+        () => new WorkerTaskGraph({ parse: { pointer: 'parse', dependsOn: ['fetch'] } })
+      ).toThrow(UnknownTaskDependencyError);
+    });
+
+    it('should throw TaskGraphCycleError for nodes depending on each other', () => {
+      const create = () =>
+        new WorkerTaskGraph({
+          fetch: { pointer: 'fetch' },
+          parse: { pointer: 'parse', dependsOn: ['fetch', 'store'] },
+          store: { pointer: 'store', dependsOn: ['parse'] },
+        });
+
+      expect(create).toThrow(TaskGraphCycleError);
+      expect(create).toThrow('parse -> store -> parse');
+    });
+  });
+
+  describe('run', () => {
+    it('should run independent nodes in parallel and pass the outputs downstream', async () => {
+      const graph = new WorkerTaskGraph({
+        blocks: { pointer: 'blocks', data: { from: 1 } },
+        logs: { pointer: 'logs', data: { from: 2 } },
+        merge: { pointer: 'merge', dependsOn: ['blocks', 'logs'] },
+      });
+
+      const promise = graph.run(execute);
+      await flush();
+
+      expect(tasks.map(({ pointer, data }) => [pointer, data])).toEqual([
+        ['blocks', { from: 1 }],
+        ['logs', { from: 2 }],
+      ]);
+
+      findTask('blocks').resolve(['block']);
+      findTask('logs').resolve(['log']);
+      await flush();
+
+      expect(findTask('merge').data).toEqual({ blocks: ['block'], logs: ['log'] });
+
+      findTask('merge').resolve('merged');
+
+      await expect(promise).resolves.toEqual({
+        blocks: { status: TaskGraphNodeStatus.Resolved, value: ['block'] },
+        logs: { status: TaskGraphNodeStatus.Resolved, value: ['log'] },
+        merge: { status: TaskGraphNodeStatus.Resolved, value: 'merged' },
+      });
+    });
+
+    it('should build the input of the node with its input function', async () => {
+      const graph = new WorkerTaskGraph({
+        fetch: { pointer: 'fetch' },
+        parse: {
+          pointer: 'parse',
+          dependsOn: ['fetch'],
+          input: ({ fetch }) => ({ raw: fetch, strict: true }),
+          options: { timeout: 1000 },
+        },
+      });
+
+      graph.run(execute);
+      await flush();
+      findTask('fetch').resolve('raw');
+      await flush();
+
+      expect(findTask('parse').data).toEqual({ raw: 'raw', strict: true });
+      expect(findTask('parse').options).toEqual(
+        expect.objectContaining({ timeout: 1000, signal: expect.any(Object) })
+      );
+    });
+
+    it('should skip the nodes depending on the failed one', async () => {
+      const error = new Error('failure');
+      const graph = new WorkerTaskGraph({
+        fetch: { pointer: 'fetch' },
+        parse: { pointer: 'parse', dependsOn: ['fetch'] },
+        store: { pointer: 'store', dependsOn: ['parse'] },
+        report: { pointer: 'report' },
+      });
+
+      const promise = graph.run(execute);
+      await flush();
+      findTask('fetch').reject(error);
+      findTask('report').resolve('done');
+
+      await expect(promise).resolves.toEqual({
+        fetch: { status: TaskGraphNodeStatus.Failed, error },
+        parse: { status: TaskGraphNodeStatus.Skipped },
+        store: { status: TaskGraphNodeStatus.Skipped },
+        report: { status: TaskGraphNodeStatus.Resolved, value: 'done' },
+      });
+      expect(execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should cancel the whole graph with the cancel policy', async () => {
+      const error = new Error('failure');
+      const graph = new WorkerTaskGraph({
+        fetch: { pointer: 'fetch' },
+        parse: { pointer: 'parse', dependsOn: ['fetch'] },
+        report: { pointer: 'report' },
+      });
+
+      const promise = graph.run(execute, {
+        failurePolicy: TaskGraphFailurePolicy.Cancel,
+      });
+      await flush();
+      findTask('fetch').reject(error);
+
+      const results = await promise;
+
+      expect(results.fetch).toEqual({ status: TaskGraphNodeStatus.Failed, error });
+      expect(results.parse).toEqual({ status: TaskGraphNodeStatus.Cancelled });
+      expect(results.report.status).toBe(TaskGraphNodeStatus.Cancelled);
+      expect(results.report.error).toBeInstanceOf(TaskCancelledError);
+    });
+
+    it('should cancel the graph with the given signal', async () => {
+      const abortController = new AbortController();
+      const graph = new WorkerTaskGraph({
+        fetch: { pointer: 'fetch' },
+        parse: { pointer: 'parse', dependsOn: ['fetch'] },
+      });
+
+      const promise = graph.run(execute, { signal: abortController.signal });
+      await flush();
+      abortController.abort();
+
+      const results = await promise;
+
+      expect(results.fetch.status).toBe(TaskGraphNodeStatus.Cancelled);
+      expect(results.parse.status).toBe(TaskGraphNodeStatus.Cancelled);
+      expect(execute).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { WorkerTaskQueue } from '../worker-task-queue';
+import { TaskPriority } from '../worker.enums';
+import { TaskQueueFullError } from '../worker.errors';
+
+describe('WorkerTaskQueue', () => {
+  let queue: WorkerTaskQueue<string>;
+
+  beforeEach(() => {
+    queue = new WorkerTaskQueue<string>(2);
+  });
+
+  describe('enqueue', () => {
+    it('should add tasks to the queue', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+
+      expect(queue.size).toBe(2);
+      expect(queue.isFull()).toBe(true);
+    });
+
+    it('should throw TaskQueueFullError when the queue is full', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+
+      expect(() => queue.enqueue('c')).toThrow(TaskQueueFullError);
+      expect(queue.size).toBe(2);
+    });
+
+    it('should not limit the queue size by default', () => {
+      const unlimited = new WorkerTaskQueue<number>();
+      for (let i = 0; i < 1000; i++) {
+        unlimited.enqueue(i);
+      }
+
+      expect(unlimited.isFull()).toBe(false);
+    });
+  });
+
+  describe('dequeue', () => {
+    it('should return tasks in order of arrival', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+
+      expect(queue.dequeue()).toBe('a');
+      expect(queue.dequeue()).toBe('b');
+      expect(queue.dequeue()).toBeUndefined();
+    });
+
+    it('should dequeue tasks by priority', () => {
+      const prioritized = new WorkerTaskQueue<string>();
+      prioritized.enqueue('low', TaskPriority.Low);
+      prioritized.enqueue('normal');
+      prioritized.enqueue('critical', TaskPriority.Critical);
+      prioritized.enqueue('high', TaskPriority.High);
+
+      expect(prioritized.dequeue()).toBe('critical');
+      expect(prioritized.dequeue()).toBe('high');
+      expect(prioritized.dequeue()).toBe('normal');
+      expect(prioritized.dequeue()).toBe('low');
+    });
+
+    it('should raise the priority of long waiting tasks', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const aging = new WorkerTaskQueue<string>(Infinity, 1000);
+      aging.enqueue('low', TaskPriority.Low);
+      nowSpy.mockReturnValue(1500);
+      aging.enqueue('normal', TaskPriority.Normal);
+      // low has gained one level and arrived first
+      expect(aging.dequeue()).toBe('low');
+
+      nowSpy.mockReturnValue(3000);
+      aging.enqueue('high', TaskPriority.High);
+      // normal has gained one level, high and normal are tied
+      expect(aging.dequeue()).toBe('normal');
+      expect(aging.dequeue()).toBe('high');
+
+      nowSpy.mockRestore();
+    });
+
+    it('should not raise priorities when aging is disabled', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const fixed = new WorkerTaskQueue<string>(Infinity, 0);
+      fixed.enqueue('low', TaskPriority.Low);
+      nowSpy.mockReturnValue(1000000);
+      fixed.enqueue('normal');
+
+      expect(fixed.dequeue()).toBe('normal');
+
+      nowSpy.mockRestore();
+    });
+
+    it('should dequeue the highest priority task matching the filter', () => {
+      const filtered = new WorkerTaskQueue<string>();
+      filtered.enqueue('parser', TaskPriority.High);
+      filtered.enqueue('writer');
+      filtered.enqueue('writer-low', TaskPriority.Low);
+
+      expect(filtered.dequeue(task => task.startsWith('writer'))).toBe('writer');
+      expect(filtered.dequeue(task => task === 'other')).toBeUndefined();
+      expect(filtered.dequeue()).toBe('parser');
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove the given task', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+
+      expect(queue.remove('a')).toBe(true);
+      expect(queue.remove('c')).toBe(false);
+      expect(queue.dequeue()).toBe('b');
+    });
+  });
+
+  describe('clear', () => {
+    it('should remove and return all tasks', () => {
+      queue.enqueue('a');
+      queue.enqueue('b');
+
+      expect(queue.clear()).toEqual(['a', 'b']);
+      expect(queue.size).toBe(0);
+    });
+  });
+});
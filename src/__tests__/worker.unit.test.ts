@@ -1,6 +1,8 @@
 import { parentPort, threadId } from 'worker_threads';
 import { Worker, TaskResolved, TaskRejected, TaskProgress } from '../worker';
 import { WorkerMessage } from '../worker-message';
+import { PeerNotConnectedError } from '../worker.errors';
+import { getPeerPorts } from '../worker.utils';
 
 jest.mock('worker_threads', () => ({
   parentPort: {
@@ -12,6 +14,7 @@ jest.mock('worker_threads', () => ({
 describe('Worker', () => {
   afterEach(() => {
     jest.clearAllMocks();
+    getPeerPorts().clear();
   });
 
   it('should have the correct thread id', () => {
@@ -26,10 +29,22 @@ describe('Worker', () => {
 
     const result = worker.resolve(data);
 
-    expect(parentPort.postMessage).toHaveBeenCalledWith(expectedMessage);
+    expect(parentPort.postMessage).toHaveBeenCalledWith(expectedMessage, undefined);
     expect(result).toBe('task_resolved');
   });
 
+  it('should transfer the given objects when calling resolve', () => {
+    const worker = new Worker();
+    const buffer = new ArrayBuffer(8);
+
+    worker.resolve(buffer, [buffer]);
+
+    expect(parentPort.postMessage).toHaveBeenCalledWith(
+      WorkerMessage.taskResolved(threadId, buffer).toJson(),
+      [buffer]
+    );
+  });
+
   it('should send a task rejected message when calling reject', () => {
     const worker = new Worker();
     const error = new Error('Some error');
@@ -41,6 +56,42 @@ describe('Worker', () => {
     expect(result).toBe('task_rejected');
   });
 
+  it('should send the description of the error when it cannot be cloned', () => {
+    const worker = new Worker();
+    const error = Object.assign(new TypeError('Request failed'), {
+      socket: new (class Socket {
+        write = () => true;
+      })(),
+    });
+    (parentPort.postMessage as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('could not be cloned');
+    });
+
+    worker.reject(error);
+
+    expect(parentPort.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        error: { name: 'TypeError', message: 'Request failed', stack: error.stack },
+      })
+    );
+  });
+
+  it('should keep the shared data as the first type parameter', async () => {
+    class RpcWorker extends Worker<{ rpcUrl: string }> {
+      public async run(): Promise<TaskResolved> {
+        return this.resolve(this.sharedData.rpcUrl);
+      }
+    }
+    const worker = new RpcWorker();
+    Object.assign(worker, { sharedData: { rpcUrl: 'http://localhost' } });
+
+    await expect(worker.run()).resolves.toBe('task_resolved');
+    expect(parentPort.postMessage).toHaveBeenCalledWith(
+      WorkerMessage.taskResolved(threadId, 'http://localhost').toJson(),
+      undefined
+    );
+  });
+
   it('should send a task progress message when calling progress', () => {
     const worker = new Worker();
     const data = 'progress data';
@@ -48,7 +99,76 @@ describe('Worker', () => {
 
     const result = worker.progress(data);
 
-    expect(parentPort.postMessage).toHaveBeenCalledWith(expectedMessage);
+    expect(parentPort.postMessage).toHaveBeenCalledWith(expectedMessage, undefined);
     expect(result).toBe('task_progress');
   });
+
+  it('should transfer the given objects when calling progress', () => {
+    const worker = new Worker();
+    const buffer = new ArrayBuffer(8);
+
+    worker.progress({ buffer }, [buffer]);
+
+    expect(parentPort.postMessage).toHaveBeenCalledWith(
+      WorkerMessage.taskProgress(threadId, { buffer }).toJson(),
+      [buffer]
+    );
+  });
+
+  it('should abort the signal and call onCancel when cancelled', async () => {
+    const worker = new Worker();
+    const onCancel = jest.spyOn(worker, 'onCancel');
+
+    expect(worker.signal.aborted).toBe(false);
+
+    await worker.cancel();
+
+    expect(worker.signal.aborted).toBe(true);
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('should not send any task messages once cancelled', async () => {
+    const worker = new Worker();
+
+    await worker.cancel();
+    worker.progress('progress data');
+    worker.resolve('resolved data');
+    worker.reject(new Error('Some error'));
+
+    expect(parentPort.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send the task messages again once the task state is reset', async () => {
+    const worker = new Worker();
+    worker.reject(new Error('Some error'));
+    await worker.cancel();
+
+    worker.resetTaskState();
+    worker.resolve('resolved data');
+
+    expect(worker.signal.aborted).toBe(false);
+    expect(parentPort.postMessage).toHaveBeenCalledWith(
+      WorkerMessage.taskResolved(threadId, 'resolved data').toJson(),
+      undefined
+    );
+  });
+
+  it('should list the connected workers and send them messages directly', () => {
+    const worker = new Worker();
+    const port = { postMessage: jest.fn() } as any;
+    const buffer = new ArrayBuffer(8);
+    getPeerPorts().set(2, port);
+
+    worker.sendToPeer(2, { buffer }, [buffer]);
+
+    expect(worker.peers).toEqual([2]);
+    expect(port.postMessage).toHaveBeenCalledWith({ buffer }, [buffer]);
+    expect(parentPort.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should throw PeerNotConnectedError when sending to a worker that is not connected', () => {
+    const worker = new Worker();
+
+    expect(() => worker.sendToPeer(2, 'data')).toThrow(PeerNotConnectedError);
+  });
 });
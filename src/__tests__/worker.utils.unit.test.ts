@@ -1,6 +1,12 @@
 import * as os from 'os';
 import { workerData } from 'worker_threads';
-import { getWorkersCount, getSharedData } from '../worker.utils';
+import {
+  getWorkersCount,
+  getSharedData,
+  getRetryDelay,
+  getSharedStore,
+} from '../worker.utils';
+import { WorkerSharedStore } from '../worker-shared-store';
 
 jest.mock('os');
 jest.mock('worker_threads', () => ({
@@ -44,6 +50,32 @@ describe('getWorkersCount', () => {
   });
 });
 
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should double the delay with each attempt', () => {
+    const policy = { initialDelay: 100, jitter: 0 };
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(400);
+  });
+
+  it('should not exceed the maximum delay', () => {
+    const policy = { initialDelay: 100, factor: 10, maxDelay: 5000, jitter: 0 };
+
+    expect(getRetryDelay(policy, 3)).toBe(5000);
+  });
+
+  it('should reduce the delay by a random part of it', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(getRetryDelay({ initialDelay: 1000, jitter: 0.2 }, 1)).toBe(900);
+  });
+});
+
 describe('getSharedData', () => {
   it('should return the shared data from workerData', () => {
     const mockSharedData = { key: 'value' };
@@ -54,3 +86,24 @@ describe('getSharedData', () => {
     expect(result).toBe(mockSharedData);
   });
 });
+
+describe('getSharedStore', () => {
+  afterEach(() => {
+    delete (workerData as any).sharedStore;
+  });
+
+  it('should return undefined when the pool has no shared store', () => {
+    expect(getSharedStore()).toBeUndefined();
+  });
+
+  it('should return the store created from the state passed to the thread', () => {
+    const { state } = WorkerSharedStore.create({ counters: ['processed'] });
+    (workerData as any).sharedStore = state;
+
+    const store = getSharedStore();
+
+    expect(store).toBeInstanceOf(WorkerSharedStore);
+    expect(store.state).toBe(state);
+    expect(getSharedStore()).toBe(store);
+  });
+});
@@ -7,3 +7,9 @@ export * from './worker.utils';
 export * from './worker.types';
 export * from './worker-container';
 export * from './worker-loader';
+export * from './worker-task-queue';
+export * from './worker-shared-store';
+export * from './worker-error-serializer';
+export * from './worker-metrics';
+export * from './worker-event-emitter';
+export * from './worker-task-graph';
@@ -0,0 +1,230 @@
+import { ErrorJson } from './worker-message';
+
+/**
+ * Represents a class of errors that can be rehydrated.
+ * @typedef {Function} ErrorClass
+ */
+export type ErrorClass = new (...args: unknown[]) => Error;
+
+/**
+ * Checks if the value is a plain object, i.e. created with a literal or `Object.create(null)`.
+ * @param {unknown} value - The value to be checked.
+ * @returns {boolean} True if the value is a plain object, false otherwise.
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Converts the value to a form that can be posted to another thread.
+ * Nested errors are serialized, functions and symbols are dropped, also from
+ * the arrays and plain objects the value contains.
+ * @param {unknown} value - The value to be converted.
+ * @param {Set<unknown>} seen - The errors, arrays and objects already converted, to break reference cycles.
+ * @returns {unknown} The converted value.
+ */
+const serializeValue = (value: unknown, seen: Set<unknown>): unknown => {
+  if (value instanceof Error) {
+    return seen.has(value) ? undefined : serializeErrorValue(value, seen);
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (Array.isArray(value) || isPlainObject(value)) {
+    if (seen.has(value)) {
+      return undefined;
+    }
+    seen.add(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => serializeValue(item, seen));
+  }
+  if (isPlainObject(value)) {
+    const json: Record<string, unknown> = {};
+    Object.keys(value).forEach(key => {
+      const item = serializeValue(value[key], seen);
+      if (item !== undefined) {
+        json[key] = item;
+      }
+    });
+    return json;
+  }
+  return value;
+};
+
+/**
+ * Serializes the error with all its own properties, including the non-enumerable ones.
+ * @param {Error} error - The error to be serialized.
+ * @param {Set<unknown>} seen - The errors already serialized, to break reference cycles.
+ * @returns {ErrorJson} The serialized error.
+ */
+const serializeErrorValue = (error: Error, seen: Set<unknown>): ErrorJson => {
+  seen.add(error);
+  const json: ErrorJson = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+
+  // subclasses often keep the name of the base class, the class name identifies them
+  const className = error.constructor?.name;
+  if (className && className !== error.name) {
+    json.className = className;
+  }
+
+  // own properties include the non-enumerable ones, such as cause or errors
+  Object.getOwnPropertyNames(error).forEach(key => {
+    if (key in json === false) {
+      const value = serializeValue((error as unknown as ErrorJson)[key], seen);
+      if (value !== undefined) {
+        json[key] = value;
+      }
+    }
+  });
+
+  return json;
+};
+
+/**
+ * Serializes the error, so that it can be posted to another thread without losing
+ * its name, message, stack, code, cause chain, aggregated errors or custom fields.
+ * Values thrown that are not errors are wrapped in an error-like object.
+ * Returns undefined if there is no error.
+ *
+ * @param {unknown} error - The error to be serialized.
+ * @returns {ErrorJson} The serialized error.
+ */
+export const serializeError = (error: unknown): ErrorJson => {
+  if (error === undefined || error === null) {
+    return undefined;
+  }
+  if (error instanceof Error) {
+    return serializeErrorValue(error, new Set());
+  }
+  if (error && typeof error === 'object') {
+    return serializeValue(error, new Set()) as ErrorJson;
+  }
+  return { name: 'Error', message: String(error) };
+};
+
+/**
+ * Represents a registry of error classes used to turn serialized errors back into
+ * instances of their original classes. Built-in errors are registered by default.
+ * Errors of unknown classes become instances of `Error` with the original name.
+ */
+export class WorkerErrorRegistry {
+  private classes = new Map<string, ErrorClass>();
+
+  /**
+   * Creates a new instance of the WorkerErrorRegistry class.
+   */
+  constructor() {
+    [
+      Error,
+      TypeError,
+      RangeError,
+      ReferenceError,
+      SyntaxError,
+      EvalError,
+      URIError,
+      AggregateError,
+    ].forEach(errorClass => this.register(errorClass));
+  }
+
+  /**
+   * Registers the error class.
+   * @param {ErrorClass} errorClass - The error class.
+   * @param {string} [name] - The name of the errors, the class name by default.
+   */
+  public register(errorClass: ErrorClass, name = errorClass.name): void {
+    this.classes.set(name, errorClass);
+  }
+
+  /**
+   * Unregisters the error class.
+   * @param {string} name - The name of the errors.
+   */
+  public unregister(name: string): void {
+    this.classes.delete(name);
+  }
+
+  /**
+   * Checks if a class is registered for the errors with the given name.
+   * @param {string} name - The name of the errors.
+   * @returns {boolean} True if the class is registered, false otherwise.
+   */
+  public has(name: string): boolean {
+    return this.classes.has(name);
+  }
+
+  /**
+   * Turns the serialized error into an instance of its registered class.
+   * The constructor is not called, the properties are copied as they were serialized.
+   * @param {ErrorJson} json - The serialized error.
+   * @returns {Error} The rehydrated error.
+   */
+  public deserialize(json: ErrorJson): Error {
+    const { name, className, message, stack, cause, errors, ...rest } = json;
+    const errorClass =
+      this.classes.get(className as string) || this.classes.get(name) || Error;
+    const error = Object.create(errorClass.prototype) as Error & ErrorJson;
+
+    this.define(error, 'message', message ?? '');
+    this.define(error, 'stack', stack);
+    if (error.name !== name && name !== undefined) {
+      this.define(error, 'name', name);
+    }
+    if (cause !== undefined) {
+      this.define(error, 'cause', this.deserializeValue(cause));
+    }
+    if (Array.isArray(errors)) {
+      this.define(
+        error,
+        'errors',
+        errors.map(item => this.deserializeValue(item))
+      );
+    }
+    Object.entries(rest).forEach(([key, value]) => {
+      error[key] = this.deserializeValue(value);
+    });
+
+    return error;
+  }
+
+  /**
+   * Rehydrates the value if it is a serialized error.
+   * @param {unknown} value - The value.
+   * @returns {unknown} The rehydrated error or the value itself.
+   */
+  private deserializeValue(value: unknown): unknown {
+    const json = value as ErrorJson;
+    return json && typeof json === 'object' && 'message' in json && 'stack' in json
+      ? this.deserialize(json)
+      : value;
+  }
+
+  /**
+   * Defines a non-enumerable property, as the built-in errors do.
+   * @param {Error} error - The error.
+   * @param {string} key - The name of the property.
+   * @param {unknown} value - The value of the property.
+   */
+  private define(error: Error, key: string, value: unknown): void {
+    Object.defineProperty(error, key, {
+      value,
+      writable: true,
+      enumerable: false,
+      configurable: true,
+    });
+  }
+}
+
+/**
+ * The registry used to rehydrate the errors received from workers.
+ * Register your own error classes to receive their instances on the main thread.
+ */
+export const workerErrorRegistry = new WorkerErrorRegistry();
@@ -0,0 +1,91 @@
+/**
+ * Represents a map of event names to the signatures of their listeners.
+ * @typedef {Object} EventListeners
+ */
+export type EventListeners = {
+  [event: string]: (...args: never[]) => Promise<void> | void;
+};
+
+/**
+ * Represents an emitter of typed events with any number of listeners per event.
+ * Listeners are called in order of subscription. Errors thrown by them are logged,
+ * so that a faulty listener affects neither the other listeners nor the emitter.
+ * @template EventMap - The map of event names to the signatures of their listeners.
+ */
+export class WorkerEventEmitter<EventMap extends EventListeners> {
+  private listeners = new Map<keyof EventMap, EventMap[keyof EventMap][]>();
+
+  /**
+   * Subscribes the listener to the event.
+   * @param {keyof EventMap} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   * @returns {Function} A function that unsubscribes the listener.
+   */
+  public on<E extends keyof EventMap>(event: E, listener: EventMap[E]): () => void {
+    const { listeners } = this;
+    if (listeners.has(event) === false) {
+      listeners.set(event, []);
+    }
+    listeners.get(event).push(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribes the listener to the next occurrence of the event only.
+   * @param {keyof EventMap} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   * @returns {Function} A function that unsubscribes the listener.
+   */
+  public once<E extends keyof EventMap>(event: E, listener: EventMap[E]): () => void {
+    const unsubscribe = this.on(event, ((...args: Parameters<EventMap[E]>) => {
+      unsubscribe();
+      return listener(...args);
+    }) as EventMap[E]);
+    return unsubscribe;
+  }
+
+  /**
+   * Unsubscribes the listener from the event.
+   * @param {keyof EventMap} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   */
+  public off<E extends keyof EventMap>(event: E, listener: EventMap[E]): void {
+    const eventListeners = this.listeners.get(event) || [];
+    const index = eventListeners.indexOf(listener);
+    if (index > -1) {
+      eventListeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Returns the number of listeners subscribed to the event.
+   * @param {keyof EventMap} event - The name of the event.
+   * @returns {number} The number of listeners.
+   */
+  public listenerCount(event: keyof EventMap): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /**
+   * Calls the listeners of the event with the given arguments.
+   * @param {keyof EventMap} event - The name of the event.
+   * @param {...unknown} args - The arguments passed to the listeners.
+   * @returns {Promise<void>} A promise that resolves when all listeners are done.
+   */
+  public async emit<E extends keyof EventMap>(
+    event: E,
+    ...args: Parameters<EventMap[E]>
+  ): Promise<void> {
+    // listeners unsubscribed while the event is emitted are still called this time
+    const eventListeners = [...(this.listeners.get(event) || [])];
+    await Promise.all(
+      eventListeners.map(async listener => {
+        try {
+          await listener(...args);
+        } catch (error) {
+          console.warn(`The listener of the "${String(event)}" event failed`, error);
+        }
+      })
+    );
+  }
+}
@@ -4,10 +4,18 @@ import { DefaultWorkerLoader } from '../worker-loader';
 import { parentPort, workerData } from 'worker_threads';
 import { WorkerMessage, WorkerMessageName } from '../../worker-message';
 import async from 'async';
-import { loadWorker, messageHandler, setupWorkerLoader } from '../worker-loader-script';
+import {
+  loadWorker,
+  messageHandler,
+  parentMessageHandler,
+  runTask,
+  setupWorkerLoader,
+} from '../worker-loader-script';
+import { getPeerPorts } from '../../worker.utils';
 import * as MockedLoaderScript from '../worker-loader-script';
 import { EventEmitter } from 'events';
 import { Worker } from '../../worker';
+import { NoTaskRunningError } from '../worker-loader.errors';
 
 jest.mock('worker_threads', () => ({
   parentPort: {
@@ -39,10 +47,12 @@ describe('messageHandler', () => {
         console.log('worker.run called with', args);
         return true;
       }),
+      resetTaskState: jest.fn(),
     } as any;
     workerLoader = {
       load: jest.fn().mockResolvedValue(worker),
       setup: jest.fn(),
+      dispose: jest.fn(),
     } as any;
     (getWorkerLoader as jest.Mock).mockReturnValue(workerLoader);
     workerData.pointer = pointer;
@@ -54,6 +64,12 @@ describe('messageHandler', () => {
     (WorkerMessage.loadFailure as jest.Mock).mockReturnValue({ workerId });
     (WorkerMessage.disposeComplete as jest.Mock).mockReturnValue({ workerId });
     (WorkerMessage.disposeFailure as jest.Mock).mockReturnValue({ workerId });
+    (WorkerMessage.detachComplete as jest.Mock).mockReturnValue({ workerId });
+    (WorkerMessage.taskCancelled as jest.Mock).mockReturnValue({ workerId });
+    (WorkerMessage.dataPassed as jest.Mock).mockReturnValue({ workerId });
+    (WorkerMessage.closeComplete as jest.Mock).mockReturnValue({ workerId });
+    (WorkerMessage.closeFailure as jest.Mock).mockReturnValue({ workerId, error: true });
+    (WorkerMessage.pong as jest.Mock).mockReturnValue({ workerId });
     queue = { push: jest.fn() };
     (async.queue as jest.Mock).mockReturnValue(queue);
   });
@@ -99,6 +115,21 @@ describe('messageHandler', () => {
     await messageHandler({ name: WorkerMessageName.Setup, workerId } as any);
     await messageHandler({ name: WorkerMessageName.Dispose, workerId } as any);
 
+    expect(WorkerMessage.disposeComplete).toHaveBeenCalledWith(
+      workerId,
+      expect.any(Number)
+    );
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+  });
+
+  it('should keep the worker loaded and send detachComplete message with the heap usage', async () => {
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(worker);
+    await messageHandler({ name: WorkerMessageName.Detach, workerId } as any);
+
+    expect(WorkerMessage.detachComplete).toHaveBeenCalledWith(
+      workerId,
+      expect.any(Number)
+    );
     expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
   });
 
@@ -116,6 +147,200 @@ describe('messageHandler', () => {
     jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(worker);
     await messageHandler({ name: WorkerMessageName.Load, workerId, data } as any);
     await messageHandler({ name: WorkerMessageName.RunTask, workerId, data } as any);
+    expect(worker.resetTaskState).toBeCalled();
     expect(worker.run).toBeCalledWith(data);
   });
+
+  it('should send the values yielded by the worker as progress and resolve with the returned one', async () => {
+    const generatorWorker = {
+      signal: new AbortController().signal,
+      run: async function* () {
+        yield 1;
+        yield 2;
+        return 'done';
+      },
+      progress: jest.fn(),
+      resolve: jest.fn(),
+      reject: jest.fn(),
+      resetTaskState: jest.fn(),
+    } as any;
+
+    await runTask(generatorWorker, 'data');
+
+    expect(generatorWorker.progress.mock.calls).toEqual([[1], [2]]);
+    expect(generatorWorker.resolve).toBeCalledWith('done');
+    expect(generatorWorker.reject).not.toBeCalled();
+  });
+
+  it('should reject the task when the generator of the worker throws', async () => {
+    const error = new Error('Generator error');
+    const generatorWorker = {
+      signal: new AbortController().signal,
+      run: async function* () {
+        yield 1;
+        throw error;
+      },
+      progress: jest.fn(),
+      resolve: jest.fn(),
+      reject: jest.fn(),
+      resetTaskState: jest.fn(),
+    } as any;
+
+    await runTask(generatorWorker, 'data');
+
+    expect(generatorWorker.reject).toBeCalledWith(error);
+    expect(generatorWorker.resolve).not.toBeCalled();
+  });
+
+  it('should stop the generator of the worker once the task is cancelled', async () => {
+    const controller = new AbortController();
+    const cleanup = jest.fn();
+    const generatorWorker = {
+      signal: controller.signal,
+      run: async function* () {
+        try {
+          yield 1;
+          controller.abort();
+          yield 2;
+          yield 3;
+        } finally {
+          cleanup();
+        }
+      },
+      progress: jest.fn(),
+      resolve: jest.fn(),
+      reject: jest.fn(),
+      resetTaskState: jest.fn(),
+    } as any;
+
+    await runTask(generatorWorker, 'data');
+
+    expect(generatorWorker.progress.mock.calls).toEqual([[1]]);
+    expect(cleanup).toBeCalled();
+    expect(generatorWorker.resolve).not.toBeCalled();
+  });
+
+  it('should pass the data to the worker and send dataPassed message', async () => {
+    const receiver = { onData: jest.fn() } as any;
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(receiver);
+    await messageHandler({ name: WorkerMessageName.PassData, workerId, data: 1 } as any);
+
+    expect(receiver.onData).toBeCalledWith(1);
+    expect(WorkerMessage.dataPassed).toBeCalledWith(workerId);
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+  });
+
+  it('should send dataPassed message with the error thrown by the worker', async () => {
+    const error = new Error('Data error');
+    const receiver = { onData: jest.fn().mockRejectedValue(error) } as any;
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(receiver);
+    await messageHandler({ name: WorkerMessageName.PassData, workerId, data: 1 } as any);
+
+    expect(WorkerMessage.dataPassed).toBeCalledWith(workerId, error);
+  });
+
+  it('should send dataPassed message with NoTaskRunningError when no worker is loaded', async () => {
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(null);
+    await messageHandler({ name: WorkerMessageName.PassData, workerId, data: 1 } as any);
+
+    expect(WorkerMessage.dataPassed).toBeCalledWith(
+      workerId,
+      expect.any(NoTaskRunningError)
+    );
+  });
+
+  it('should connect the peer and pass its messages to the worker', async () => {
+    const port = new EventEmitter();
+    const receiver = { onPeerMessage: jest.fn() } as any;
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(receiver);
+    await messageHandler({
+      name: WorkerMessageName.ConnectPeer,
+      workerId,
+      data: { peerId: 7, port },
+    } as any);
+
+    port.emit('message', 'block');
+    await new Promise(setImmediate);
+
+    expect(getPeerPorts().get(7)).toBe(port);
+    expect(receiver.onPeerMessage).toBeCalledWith(7, 'block');
+
+    port.emit('close');
+
+    expect(getPeerPorts().has(7)).toBe(false);
+  });
+
+  it('should disconnect the peers when the worker is released', async () => {
+    const connect = async (peerId: number) => {
+      const port = Object.assign(new EventEmitter(), { close: jest.fn() });
+      await messageHandler({
+        name: WorkerMessageName.ConnectPeer,
+        workerId,
+        data: { peerId, port },
+      } as any);
+      return port;
+    };
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(worker);
+
+    const detachedPort = await connect(7);
+    await messageHandler({ name: WorkerMessageName.Detach, workerId } as any);
+
+    expect(detachedPort.close).toBeCalled();
+    expect(getPeerPorts().size).toBe(0);
+
+    const disposedPort = await connect(8);
+    await messageHandler({ name: WorkerMessageName.Dispose, workerId } as any);
+
+    expect(disposedPort.close).toBeCalled();
+    expect(getPeerPorts().size).toBe(0);
+  });
+
+  it('should answer the ping with a pong message at once', () => {
+    parentMessageHandler({ name: WorkerMessageName.Ping, workerId } as any);
+
+    expect(WorkerMessage.pong).toBeCalledWith(workerId);
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+  });
+
+  it('should cancel worker task and send taskCancelled message', async () => {
+    const cancellable = { cancel: jest.fn() } as any;
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(cancellable);
+    await messageHandler({ name: WorkerMessageName.CancelTask, workerId } as any);
+
+    expect(cancellable.cancel).toBeCalled();
+    expect(WorkerMessage.taskCancelled).toBeCalledWith(workerId);
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+  });
+
+  it('should send taskCancelled message even if the cancellation fails', async () => {
+    const cancellable = {
+      cancel: jest.fn().mockRejectedValue(new Error('Cancel error')),
+    } as any;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(MockedLoaderScript, 'getWorker').mockReturnValue(cancellable);
+    await messageHandler({ name: WorkerMessageName.CancelTask, workerId } as any);
+
+    expect(warnSpy).toHaveBeenCalled();
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+    warnSpy.mockRestore();
+  });
+
+  it('should dispose worker loader and send closeComplete message', async () => {
+    await messageHandler({ name: WorkerMessageName.Setup, workerId } as any);
+    await messageHandler({ name: WorkerMessageName.Close, workerId } as any);
+
+    expect(workerLoader.dispose).toBeCalled();
+    expect(WorkerMessage.closeComplete).toBeCalledWith(workerId);
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId });
+  });
+
+  it('should handle close failure and send closeFailure message', async () => {
+    const error = new Error('Close error');
+    (workerLoader.dispose as jest.Mock).mockRejectedValue(error);
+    await messageHandler({ name: WorkerMessageName.Setup, workerId } as any);
+    await messageHandler({ name: WorkerMessageName.Close, workerId } as any);
+
+    expect(WorkerMessage.closeFailure).toBeCalledWith(workerId, error);
+    expect(parentPort.postMessage).toHaveBeenCalledWith({ workerId, error: true });
+  });
 });
@@ -67,4 +67,17 @@ describe('DefaultWorkerLoader', () => {
       'A valid path to a worker was not specified or a worker was not assigned to the given name worker'
     );
   });
+
+  it('should dispose dependencies that can be disposed', async () => {
+    const dependencies = { dispose: jest.fn() };
+    loader.dependencies = dependencies as any;
+
+    await loader.dispose();
+
+    expect(dependencies.dispose).toHaveBeenCalled();
+  });
+
+  it('should dispose without dependencies', async () => {
+    await expect(loader.dispose()).resolves.toBeUndefined();
+  });
 });
@@ -1,10 +1,13 @@
 import async from 'async';
-import { workerData, parentPort } from 'worker_threads';
+import { getHeapStatistics } from 'v8';
+import { workerData, parentPort, MessagePort } from 'worker_threads';
 import { WorkerMessage, WorkerMessageName } from '../worker-message';
-import { WorkerData } from '../worker.types';
-import { Worker } from '../worker';
+import { PeerConnection, WorkerData } from '../worker.types';
+import { TaskGenerator, Worker } from '../worker';
 import { getWorkerLoader } from './worker-loader.utils';
 import { WorkerLoader } from './worker-loader';
+import { NoTaskRunningError } from './worker-loader.errors';
+import { getPeerPorts } from '../worker.utils';
 
 let worker: Worker;
 let workerLoader: WorkerLoader;
@@ -57,6 +60,84 @@ export const getWorker = () => {
   return worker;
 };
 
+/**
+ * Runs the task on the given worker. If the `run` method of the worker is an async
+ * generator, each yielded value is sent as the progress of the task and the returned
+ * value resolves the task, an error thrown by the generator rejects it.
+ * The generator is stopped once the task gets cancelled. The state of the previous task
+ * is reset first, as the pool may keep the same worker loaded for the next tasks.
+ *
+ * @param {Worker} currentWorker - The worker running the task.
+ * @param {unknown} data - The task data.
+ * @returns {Promise<void>} A promise that resolves when the generator is done.
+ */
+export const runTask = async (currentWorker: Worker, data: unknown) => {
+  currentWorker.resetTaskState();
+  const result = currentWorker.run(data);
+  if (!result || typeof (result as TaskGenerator)[Symbol.asyncIterator] !== 'function') {
+    return;
+  }
+  const generator = result as TaskGenerator;
+  try {
+    let next = await generator.next();
+    while (next.done === false) {
+      if (currentWorker.signal.aborted) {
+        await generator.return(undefined);
+        return;
+      }
+      currentWorker.progress(next.value);
+      next = await generator.next();
+    }
+    currentWorker.resolve(next.value);
+  } catch (error) {
+    currentWorker.reject(error);
+  }
+};
+
+/**
+ * Connects the thread with the given peer worker through the port of their channel.
+ * Messages received from the peer are passed to the `onPeerMessage` hook
+ * of the currently loaded worker. The peer is forgotten once the channel closes,
+ * e.g. when one of the workers is released.
+ *
+ * @param {number} peerId - The ID of the peer worker.
+ * @param {MessagePort} port - The port of the channel connected to the peer.
+ */
+export const connectPeer = (peerId: number, port: MessagePort) => {
+  const peers = getPeerPorts();
+  peers.set(peerId, port);
+  port.on('message', async (data: unknown) => {
+    const currentWorker = getWorker();
+    if (!currentWorker) {
+      console.warn(
+        `No task is running, the message of the worker #${peerId} was dropped`
+      );
+      return;
+    }
+    try {
+      await currentWorker.onPeerMessage(peerId, data);
+    } catch (error) {
+      console.warn(`Failed to handle the message of the worker #${peerId}`, error);
+    }
+  });
+  port.on('close', () => {
+    if (peers.get(peerId) === port) {
+      peers.delete(peerId);
+    }
+  });
+};
+
+/**
+ * Closes the channels with all connected peers, which also disconnects this thread
+ * on their side. Called when the worker is released, so that the next task
+ * of the thread is not connected to the peers of the previous one.
+ */
+export const disconnectPeers = () => {
+  const peers = getPeerPorts();
+  peers.forEach(port => port.close());
+  peers.clear();
+};
+
 /**
  * Handles the worker message.
  *
@@ -92,31 +173,114 @@ export const messageHandler = async (message: WorkerMessage) => {
     }
   } else if (message.name === WorkerMessageName.Dispose) {
     /**
-     * Handles the 'Dispose' message sent to clear the currently loaded worker.
-     * A 'DisposeComplete' message is sent back to the parent thread.
+     * Handles the 'Dispose' message sent to clear the currently loaded worker
+     * and disconnect its peers. A 'DisposeComplete' message with the heap usage
+     * of the thread is sent back to the parent thread, so that the pool can recycle
+     * a leaking worker.
      */
     try {
+      disconnectPeers();
       clearWorker();
-      parentPort.postMessage(WorkerMessage.disposeComplete(message.workerId));
+      const { used_heap_size } = getHeapStatistics();
+      parentPort.postMessage(
+        WorkerMessage.disposeComplete(message.workerId, used_heap_size)
+      );
     } catch (error) {
       parentPort.postMessage(WorkerMessage.disposeFailure(message.workerId, error));
     }
+  } else if (message.name === WorkerMessageName.Detach) {
+    /**
+     * Handles the 'Detach' message sent when the worker is released with the worker
+     * kept loaded, its peers are disconnected. A 'DetachComplete' message with the heap
+     * usage of the thread is sent back to the parent thread, as it is on disposal.
+     */
+    disconnectPeers();
+    const { used_heap_size } = getHeapStatistics();
+    parentPort.postMessage(
+      WorkerMessage.detachComplete(message.workerId, used_heap_size)
+    );
+  } else if (message.name === WorkerMessageName.Close) {
+    /**
+     * Handles the 'Close' message sent before the thread is terminated.
+     * The currently loaded worker is cleared, its peers are disconnected and the worker
+     * loader is disposed. A 'CloseComplete' message is sent back to the parent thread.
+     */
+    try {
+      disconnectPeers();
+      clearWorker();
+      if (workerLoader?.dispose) {
+        await workerLoader.dispose();
+      }
+      parentPort.postMessage(WorkerMessage.closeComplete(message.workerId));
+    } catch (error) {
+      parentPort.postMessage(WorkerMessage.closeFailure(message.workerId, error));
+    }
+  } else if (message.name === WorkerMessageName.ConnectPeer) {
+    /**
+     * Handles the 'ConnectPeer' message sent to connect the thread with another worker
+     * of the pool, so that they can exchange messages without the parent thread.
+     */
+    const { peerId, port } = (<WorkerMessage<PeerConnection>>message).data;
+    connectPeer(peerId, port);
   } else if (message.name === WorkerMessageName.RunTask) {
     /**
      * Handles the 'RunTask' message sent to execute a task on the currently loaded worker.
      * The associated task data is passed to the `run` method of the worker.
+     * The task is not awaited, so that the messages sent to it can be handled meanwhile.
+     */
+    runTask(getWorker(), message.data);
+  } else if (message.name === WorkerMessageName.PassData) {
+    /**
+     * Handles the 'PassData' message sent to feed the running task with more data.
+     * The data is passed to the `onData` hook of the currently loaded worker.
+     * Once it is handled, a 'DataPassed' message is sent back to the parent thread,
+     * with the error if the hook failed.
+     */
+    try {
+      const currentWorker = getWorker();
+      if (!currentWorker) {
+        throw new NoTaskRunningError();
+      }
+      await currentWorker.onData(message.data);
+      parentPort.postMessage(WorkerMessage.dataPassed(message.workerId));
+    } catch (error) {
+      parentPort.postMessage(WorkerMessage.dataPassed(message.workerId, error));
+    }
+  } else if (message.name === WorkerMessageName.CancelTask) {
+    /**
+     * Handles the 'CancelTask' message sent to cancel the task of the currently loaded worker.
+     * Once the worker has handled the cancellation, a 'TaskCancelled' message is sent back
+     * to the parent thread. If the thread is too busy to handle it, the pool terminates it.
      */
-    getWorker().run(message.data);
+    try {
+      await getWorker()?.cancel();
+    } catch (error) {
+      console.warn(`Failed to cancel the task of the worker #${message.workerId}`, error);
+    } finally {
+      parentPort.postMessage(WorkerMessage.taskCancelled(message.workerId));
+    }
   }
 };
 
 const queue = async.queue(messageHandler);
 
 /**
- * Event listener for the 'message' event on the parent port.
+ * Handles the message received from the parent thread.
+ * The 'Ping' heartbeat is answered with a 'Pong' at once, bypassing the queue,
+ * so that a thread busy with a long asynchronous operation is not taken for a hung one.
+ * Only a thread whose event loop is blocked misses it. Other messages are queued.
  *
  * @param {WorkerMessage} message - The worker message.
  */
-parentPort.on('message', (message: WorkerMessage) => {
-  queue.push(message);
-});
+export const parentMessageHandler = (message: WorkerMessage) => {
+  if (message.name === WorkerMessageName.Ping) {
+    parentPort.postMessage(WorkerMessage.pong(message.workerId));
+  } else {
+    queue.push(message);
+  }
+};
+
+/**
+ * Event listener for the 'message' event on the parent port.
+ */
+parentPort.on('message', parentMessageHandler);
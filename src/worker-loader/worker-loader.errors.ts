@@ -11,3 +11,9 @@ export class MissingClassError extends Error {
     super(`Class not found in the specified file "${path}"`);
   }
 }
+
+export class NoTaskRunningError extends Error {
+  constructor() {
+    super(`No task is running on the worker, the data cannot be passed`);
+  }
+}
@@ -48,6 +48,13 @@ export abstract class WorkerLoader<
     pointer: string,
     workerConstructorArgs?: WorkerConstructorArgs
   ): Promise<Worker>;
+
+  /**
+   * Releases the resources of the worker loader when the pool is closed.
+   *
+   * @returns {Promise<void>} A promise that resolves when the resources are released.
+   */
+  public abstract dispose?(): Promise<void>;
 }
 
 /**
@@ -122,6 +129,18 @@ export class DefaultWorkerLoader<
     return worker;
   }
 
+  /**
+   * Disposes the dependencies (if they can be disposed) when the pool is closed.
+   *
+   * @returns {Promise<void>} A promise that resolves when the dependencies are disposed.
+   */
+  public async dispose(): Promise<void> {
+    const dependencies = this.dependencies as WorkerLoaderDependencies;
+    if (dependencies?.dispose) {
+      await dependencies.dispose();
+    }
+  }
+
   public sendMessage(message: WorkerMessage): void {
     parentPort.postMessage(message.toJson());
   }
@@ -4,4 +4,5 @@ export type WorkerConstructorArgs = { [key: string]: unknown };
 
 export abstract class WorkerLoaderDependencies {
   public abstract initialize(...args: unknown[]): Promise<void>;
+  public dispose?(): Promise<void>;
 }
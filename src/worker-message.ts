@@ -1,15 +1,30 @@
+import { MessagePort } from 'worker_threads';
+import {
+  serializeError,
+  workerErrorRegistry,
+  WorkerErrorRegistry,
+} from './worker-error-serializer';
+
 /**
  * Represents the JSON object for an error.
  * @typedef {Object} ErrorJson
  * @property {string} [name] - The name of the error.
  * @property {string} [message] - The error message.
  * @property {string} [stack] - The error stack trace.
+ * @property {string} [code] - The error code, e.g. of system errors.
+ * @property {string} [className] - The class of the error, if its name is different.
+ * @property {unknown} [cause] - The serialized cause of the error.
+ * @property {unknown[]} [errors] - The serialized errors of an `AggregateError`.
  * @property {unknown} [key] - Additional key-value pairs for custom error properties.
  */
 export type ErrorJson = {
   name?: string;
   message?: string;
   stack?: string;
+  code?: string;
+  className?: string;
+  cause?: unknown;
+  errors?: unknown[];
   [key: string]: unknown;
 };
 
@@ -31,6 +46,19 @@ export type WorkerMessageContent<DataType = unknown> = {
   error?: ErrorJson;
 };
 
+/**
+ * Represents a message of a task, the type guards narrow the data
+ * to the result or the progress of the task.
+ * @interface TaskMessage
+ * @template OutputType - The type of the task result.
+ * @template ProgressType - The type of the task progress.
+ */
+export interface TaskMessage<OutputType = unknown, ProgressType = unknown>
+  extends WorkerMessage<OutputType | ProgressType> {
+  isTaskResolved(): this is WorkerMessage<OutputType>;
+  isTaskProgress(): this is WorkerMessage<ProgressType>;
+}
+
 /**
  * Represents a handler function for worker messages.
  * @typedef {function} WorkerMessageHandler
@@ -104,7 +132,7 @@ export class WorkerMessage<DataType = unknown> {
       WorkerMessageType.System,
       WorkerMessageName.SetupFailure,
       error,
-      <ErrorJson>error
+      serializeError(error)
     );
   }
 
@@ -148,7 +176,7 @@ export class WorkerMessage<DataType = unknown> {
       WorkerMessageType.System,
       WorkerMessageName.LoadFailure,
       error,
-      <ErrorJson>error
+      serializeError(error)
     );
   }
 
@@ -169,13 +197,15 @@ export class WorkerMessage<DataType = unknown> {
   /**
    * Creates a dispose complete worker message for the specified worker ID.
    * @param {number} workerId - The ID of the worker.
+   * @param {number} [heapUsage] - The heap memory (in bytes) used by the worker thread.
    * @returns {WorkerMessage} The dispose complete worker message.
    */
-  public static disposeComplete(workerId: number) {
+  public static disposeComplete(workerId: number, heapUsage?: number) {
     return new WorkerMessage(
       workerId,
       WorkerMessageType.System,
-      WorkerMessageName.DisposeComplete
+      WorkerMessageName.DisposeComplete,
+      heapUsage
     );
   }
 
@@ -191,10 +221,115 @@ export class WorkerMessage<DataType = unknown> {
       WorkerMessageType.System,
       WorkerMessageName.DisposeFailure,
       error,
-      <ErrorJson>error
+      serializeError(error)
+    );
+  }
+
+  /**
+   * Creates a detach worker message for the specified worker ID,
+   * sent when the worker is released with its resource still loaded.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage} The detach worker message.
+   */
+  public static detach(workerId: number) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.Detach
+    );
+  }
+
+  /**
+   * Creates a detach complete worker message for the specified worker ID.
+   * @param {number} workerId - The ID of the worker.
+   * @param {number} [heapUsage] - The heap memory (in bytes) used by the worker thread.
+   * @returns {WorkerMessage} The detach complete worker message.
+   */
+  public static detachComplete(workerId: number, heapUsage?: number) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.DetachComplete,
+      heapUsage
+    );
+  }
+
+  /**
+   * Creates a close worker message for the specified worker ID.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage} The close worker message.
+   */
+  public static close(workerId: number) {
+    return new WorkerMessage(workerId, WorkerMessageType.System, WorkerMessageName.Close);
+  }
+
+  /**
+   * Creates a close complete worker message for the specified worker ID.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage} The close complete worker message.
+   */
+  public static closeComplete(workerId: number) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.CloseComplete
+    );
+  }
+
+  /**
+   * Creates a close failure worker message for the specified worker ID and error.
+   * @param {number} workerId - The ID of the worker.
+   * @param {Error} error - The error information.
+   * @returns {WorkerMessage} The close failure worker message.
+   */
+  public static closeFailure(workerId: number, error: Error) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.CloseFailure,
+      error,
+      serializeError(error)
     );
   }
 
+  /**
+   * Creates a connect peer worker message for the specified worker ID,
+   * it passes the port of the channel connecting the worker with its peer.
+   * The port has to be transferred along with the message.
+   * @param {number} workerId - The ID of the worker.
+   * @param {number} peerId - The ID of the peer worker.
+   * @param {MessagePort} port - The port of the channel connected to the peer.
+   * @returns {WorkerMessage} The connect peer worker message.
+   */
+  public static connectPeer(workerId: number, peerId: number, port: MessagePort) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.ConnectPeer,
+      { peerId, port }
+    );
+  }
+
+  /**
+   * Creates a ping worker message for the specified worker ID,
+   * the heartbeat the worker thread is expected to answer with a pong.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage} The ping worker message.
+   */
+  public static ping(workerId: number) {
+    return new WorkerMessage(workerId, WorkerMessageType.System, WorkerMessageName.Ping);
+  }
+
+  /**
+   * Creates a pong worker message for the specified worker ID,
+   * it confirms that the worker thread is responsive.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage} The pong worker message.
+   */
+  public static pong(workerId: number) {
+    return new WorkerMessage(workerId, WorkerMessageType.System, WorkerMessageName.Pong);
+  }
+
   /**
    * Creates a task execution worker message for the specified worker ID and error.
    * @param {number} workerId - The ID of the worker.
@@ -225,6 +360,23 @@ export class WorkerMessage<DataType = unknown> {
     );
   }
 
+  /**
+   * Creates a data passed worker message for the specified worker ID,
+   * it acknowledges the data sent to the running task.
+   * @param {number} workerId - The ID of the worker.
+   * @param {Error} [error] - The error thrown while the worker was handling the data.
+   * @returns {WorkerMessage}
+   */
+  public static dataPassed(workerId: number, error?: Error) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.System,
+      WorkerMessageName.DataPassed,
+      null,
+      serializeError(error)
+    );
+  }
+
   /**
    * Creates a task resolved worker message for the specified worker ID and error.
    * @param {number} workerId - The ID of the worker.
@@ -252,7 +404,7 @@ export class WorkerMessage<DataType = unknown> {
       WorkerMessageType.Error,
       WorkerMessageName.TaskRejected,
       null,
-      <ErrorJson>error
+      serializeError(error)
     );
   }
 
@@ -271,6 +423,32 @@ export class WorkerMessage<DataType = unknown> {
     );
   }
 
+  /**
+   * Creates a task cancellation worker message for the specified worker ID.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage}
+   */
+  public static cancelTask(workerId: number) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.Info,
+      WorkerMessageName.CancelTask
+    );
+  }
+
+  /**
+   * Creates a task cancelled worker message for the specified worker ID.
+   * @param {number} workerId - The ID of the worker.
+   * @returns {WorkerMessage}
+   */
+  public static taskCancelled(workerId: number) {
+    return new WorkerMessage(
+      workerId,
+      WorkerMessageType.Info,
+      WorkerMessageName.TaskCancelled
+    );
+  }
+
   /**
    * Creates a new instance of the WorkerMessage class.
    * @param {number} workerId - The ID of the worker.
@@ -311,6 +489,27 @@ export class WorkerMessage<DataType = unknown> {
     return this.name === WorkerMessageName.TaskProgress;
   }
 
+  /**
+   * Checks if the worker message represents a task cancelled message.
+   * @returns {boolean} True if the worker message is a task cancelled message, false otherwise.
+   */
+  public isTaskCancelled(): boolean {
+    return this.name === WorkerMessageName.TaskCancelled;
+  }
+
+  /**
+   * Turns the error information of the message back into an error instance.
+   * @param {WorkerErrorRegistry} [registry] - The registry of error classes, the default one if not given.
+   * @returns {Error} The rehydrated error, or undefined if the message has no error.
+   */
+  public toError(registry: WorkerErrorRegistry = workerErrorRegistry): Error {
+    const { error } = this;
+    if (error?.name === undefined && error?.message === undefined) {
+      return undefined;
+    }
+    return registry.deserialize(error);
+  }
+
   /**
    * Converts the worker message to a JSON object.
    * @returns {Object} The JSON representation of the worker message.
@@ -363,10 +562,20 @@ export enum WorkerMessageName {
   Dispose = 'dispose',
   DisposeComplete = 'dispose_complete',
   DisposeFailure = 'dispose_failure',
+  Detach = 'detach',
+  DetachComplete = 'detach_complete',
+  Close = 'close',
+  CloseComplete = 'close_complete',
+  CloseFailure = 'close_failure',
+  ConnectPeer = 'connect_peer',
   RunTask = 'run_task',
   PassData = 'pass_data',
   DataPassed = 'data_passed',
   TaskResolved = 'task_resolved',
   TaskRejected = 'task_rejected',
   TaskProgress = 'task_progress',
+  CancelTask = 'cancel_task',
+  TaskCancelled = 'task_cancelled',
+  Ping = 'ping',
+  Pong = 'pong',
 }
@@ -0,0 +1,306 @@
+import { TaskOutcome } from './worker.enums';
+import { HistogramSnapshot, TaskCounters, WorkerPoolMetrics } from './worker.types';
+
+/**
+ * Represents the labels and the value of a metric sample.
+ * @typedef {Array} MetricSample
+ */
+type MetricSample = [labels: { [name: string]: string | number }, value: number];
+
+/**
+ * The default upper bounds (in ms) of the histogram buckets.
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000,
+];
+
+/**
+ * Represents a histogram of observed values, e.g. durations in milliseconds.
+ */
+export class MetricsHistogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  /**
+   * Creates a new instance of the MetricsHistogram class.
+   * @param {number[]} [bounds] - The upper bounds of the buckets in ascending order.
+   */
+  constructor(public readonly bounds: number[] = DEFAULT_HISTOGRAM_BUCKETS) {
+    this.counts = bounds.map(() => 0);
+  }
+
+  /**
+   * Records the value in the first bucket it fits in.
+   * @param {number} value - The observed value.
+   */
+  public observe(value: number): void {
+    const index = this.bounds.findIndex(bound => value <= bound);
+    if (index > -1) {
+      this.counts[index]++;
+    }
+    this.sum += value;
+    this.count++;
+  }
+
+  /**
+   * Returns the current state of the histogram, the bucket counts are cumulative.
+   * @returns {HistogramSnapshot} The snapshot of the histogram.
+   */
+  public snapshot(): HistogramSnapshot {
+    const { bounds, counts, sum, count } = this;
+    let cumulativeCount = 0;
+    return {
+      buckets: bounds.map((le, i) => ({ le, count: (cumulativeCount += counts[i]) })),
+      sum,
+      count,
+    };
+  }
+}
+
+/**
+ * Represents the recorder of the task and worker events of a pool.
+ */
+export class WorkerMetricsRecorder {
+  private tasks = new Map<string, TaskCounters>();
+  private taskDuration = new MetricsHistogram();
+  private queueWait = new MetricsHistogram();
+  private workersSpawned = 0;
+  private workersCrashed = 0;
+
+  /**
+   * Records the start of a task.
+   * @param {string} pointer - The pointer of the worker running the task.
+   */
+  public recordTaskStarted(pointer: string): void {
+    this.getTaskCounters(pointer).started++;
+  }
+
+  /**
+   * Records the end of a task and its duration.
+   * @param {string} pointer - The pointer of the worker running the task.
+   * @param {TaskOutcome} outcome - How the task ended.
+   * @param {number} duration - The time (in ms) the task was running.
+   */
+  public recordTaskFinished(
+    pointer: string,
+    outcome: TaskOutcome,
+    duration: number
+  ): void {
+    this.getTaskCounters(pointer)[outcome]++;
+    this.taskDuration.observe(duration);
+  }
+
+  /**
+   * Records the time a request waited for a worker.
+   * @param {number} wait - The time (in ms) spent in the queue.
+   */
+  public recordQueueWait(wait: number): void {
+    this.queueWait.observe(wait);
+  }
+
+  /**
+   * Records the creation of a worker.
+   */
+  public recordWorkerSpawned(): void {
+    this.workersSpawned++;
+  }
+
+  /**
+   * Records the crash of a worker.
+   */
+  public recordWorkerCrashed(): void {
+    this.workersCrashed++;
+  }
+
+  /**
+   * Returns the recorded metrics.
+   * @returns {Object} The task counters by pointer, the histograms and the worker counters.
+   */
+  public snapshot(): Omit<WorkerPoolMetrics, 'queuedTasks' | 'workers'> {
+    const { tasks, taskDuration, queueWait, workersSpawned, workersCrashed } = this;
+    const taskCounters: { [pointer: string]: TaskCounters } = {};
+    tasks.forEach((counters, pointer) => {
+      taskCounters[pointer] = { ...counters };
+    });
+
+    return {
+      tasks: taskCounters,
+      taskDuration: taskDuration.snapshot(),
+      queueWait: queueWait.snapshot(),
+      workersSpawned,
+      workersCrashed,
+    };
+  }
+
+  /**
+   * Returns the task counters of the pointer, creates them if needed.
+   * @param {string} pointer - The pointer of the worker.
+   * @returns {TaskCounters} The task counters.
+   */
+  private getTaskCounters(pointer: string): TaskCounters {
+    const { tasks } = this;
+    if (tasks.has(pointer) === false) {
+      tasks.set(pointer, { started: 0, resolved: 0, rejected: 0, failed: 0 });
+    }
+    return tasks.get(pointer);
+  }
+}
+
+/**
+ * Escapes the label value as required by the Prometheus text format.
+ * @param {string | number} value - The label value.
+ * @returns {string} The escaped value.
+ */
+const escapeLabelValue = (value: string | number): string =>
+  String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+/**
+ * Formats the samples of the metric along with its help and type lines.
+ * @param {string} name - The name of the metric.
+ * @param {string} type - The type of the metric.
+ * @param {string} help - The description of the metric.
+ * @param {MetricSample[]} samples - The samples of the metric.
+ * @returns {string[]} The lines of the metric.
+ */
+const formatMetric = (
+  name: string,
+  type: string,
+  help: string,
+  samples: MetricSample[]
+): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+  ...samples.map(([labels, value]) => {
+    const pairs = Object.entries(labels).map(
+      ([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`
+    );
+    return `${name}${pairs.length > 0 ? `{${pairs.join(',')}}` : ''} ${value}`;
+  }),
+];
+
+/**
+ * Formats the histogram of durations, converted from milliseconds to seconds.
+ * @param {string} name - The name of the metric.
+ * @param {string} help - The description of the metric.
+ * @param {HistogramSnapshot} histogram - The histogram of durations in milliseconds.
+ * @returns {string[]} The lines of the metric.
+ */
+const formatDurationHistogram = (
+  name: string,
+  help: string,
+  histogram: HistogramSnapshot
+): string[] => {
+  const { buckets, sum, count } = histogram;
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} histogram`,
+    ...buckets.map(
+      ({ le, count: bucketCount }) => `${name}_bucket{le="${le / 1000}"} ${bucketCount}`
+    ),
+    `${name}_bucket{le="+Inf"} ${count}`,
+    `${name}_sum ${sum / 1000}`,
+    `${name}_count ${count}`,
+  ];
+};
+
+/**
+ * Serializes the metrics of the pool in the Prometheus text exposition format.
+ * Durations are exposed in seconds, as Prometheus recommends.
+ *
+ * @param {WorkerPoolMetrics} metrics - The metrics returned by `WorkerPool.getMetrics()`.
+ * @param {string} [prefix] - The prefix of the metric names.
+ * @returns {string} The metrics in the Prometheus text format.
+ */
+export const formatPrometheusMetrics = (
+  metrics: WorkerPoolMetrics,
+  prefix = 'aw_workers'
+): string => {
+  const { tasks, taskDuration, queueWait, workersSpawned, workersCrashed } = metrics;
+  const { queuedTasks, workers } = metrics;
+  const pointers = Object.keys(tasks);
+  const taskSamples = (outcome: keyof TaskCounters): MetricSample[] =>
+    pointers.map(pointer => [{ pointer }, tasks[pointer][outcome]]);
+  const activeCount = workers.filter(({ active }) => active).length;
+
+  return [
+    ...formatMetric(
+      `${prefix}_tasks_started_total`,
+      'counter',
+      'The number of tasks started.',
+      taskSamples('started')
+    ),
+    ...formatMetric(
+      `${prefix}_tasks_resolved_total`,
+      'counter',
+      'The number of tasks resolved by the worker.',
+      taskSamples('resolved')
+    ),
+    ...formatMetric(
+      `${prefix}_tasks_rejected_total`,
+      'counter',
+      'The number of tasks rejected by the worker.',
+      taskSamples('rejected')
+    ),
+    ...formatMetric(
+      `${prefix}_tasks_failed_total`,
+      'counter',
+      'The number of tasks that timed out, were cancelled or whose worker crashed.',
+      taskSamples('failed')
+    ),
+    ...formatDurationHistogram(
+      `${prefix}_task_duration_seconds`,
+      'The time tasks were running on a worker.',
+      taskDuration
+    ),
+    ...formatDurationHistogram(
+      `${prefix}_queue_wait_seconds`,
+      'The time requests waited for a worker.',
+      queueWait
+    ),
+    ...formatMetric(
+      `${prefix}_workers_spawned_total`,
+      'counter',
+      'The number of workers created.',
+      [[{}, workersSpawned]]
+    ),
+    ...formatMetric(
+      `${prefix}_workers_crashed_total`,
+      'counter',
+      'The number of workers crashed.',
+      [[{}, workersCrashed]]
+    ),
+    ...formatMetric(`${prefix}_workers`, 'gauge', 'The number of workers by state.', [
+      [{ state: 'active' }, activeCount],
+      [{ state: 'available' }, workers.length - activeCount],
+    ]),
+    ...formatMetric(
+      `${prefix}_queued_tasks`,
+      'gauge',
+      'The number of requests waiting for a worker.',
+      [[{}, queuedTasks]]
+    ),
+    ...formatMetric(
+      `${prefix}_worker_tasks_total`,
+      'counter',
+      'The number of tasks run by the worker thread.',
+      workers.map(({ id, taskCount }) => [{ worker_id: id }, taskCount])
+    ),
+    ...formatMetric(
+      `${prefix}_worker_heap_used_bytes`,
+      'gauge',
+      'The heap memory used by the worker thread, as reported on the last release.',
+      workers.map(({ id, heapUsage }) => [{ worker_id: id }, heapUsage])
+    ),
+    ...formatMetric(
+      `${prefix}_worker_event_loop_utilization`,
+      'gauge',
+      'The utilization of the event loop of the worker thread since it started.',
+      workers.map(({ id, eventLoopUtilization }) => [
+        { worker_id: id },
+        eventLoopUtilization,
+      ])
+    ),
+    '',
+  ].join('\n');
+};
@@ -1,12 +1,68 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
+import { MessageChannel } from 'worker_threads';
 import { testPath } from './worker-loader';
 import { WorkerProxy } from './worker-proxy';
-import { InvalidPathError } from './worker.errors';
-import { WorkerPoolOptions } from './worker.types';
-import { getWorkersCount } from './worker.utils';
+import { Worker } from './worker';
+import { WorkerMessage } from './worker-message';
+import { WorkerTaskQueue } from './worker-task-queue';
+import { WorkerSharedStore } from './worker-shared-store';
+import { WorkerMetricsRecorder } from './worker-metrics';
+import { WorkerEventEmitter } from './worker-event-emitter';
+import { WorkerTaskGraph } from './worker-task-graph';
+import { TaskOutcome } from './worker.enums';
+import {
+  InvalidPathError,
+  PoolClosedError,
+  PoolExhaustedError,
+  TaskCancelledError,
+  TaskRejectedError,
+  TaskTimeoutError,
+  TooManyWarmReservationsError,
+  WorkerCrashedError,
+  WorkerUnresponsiveError,
+} from './worker.errors';
+import {
+  GracefulShutdownOptions,
+  MapItemResult,
+  MapOptions,
+  PoolCloseOptions,
+  RetryPolicy,
+  TaskAttempt,
+  TaskGraph,
+  TaskGraphOptions,
+  TaskGraphResults,
+  TaskOptions,
+  TaskProgressHandler,
+  WarmReservations,
+  WorkerChannelData,
+  WorkerInput,
+  WorkerOutput,
+  WorkerPoolEvents,
+  WorkerPoolMetrics,
+  WorkerPoolOptions,
+  WorkerProgress,
+  WorkerThreadOptions,
+} from './worker.types';
+import { getRetryDelay, getWorkersCount } from './worker.utils';
 
 type WorkerReleaseHandler = (id: number, data?: unknown) => Promise<void> | void;
 
+type TaskFailureHandler = (error: Error) => void;
+
+type TypedWorkerProxy<T> = WorkerProxy<
+  WorkerInput<T>,
+  WorkerOutput<T>,
+  WorkerProgress<T>,
+  WorkerChannelData<T>
+>;
+
+type WorkerRequest = {
+  pointer: string;
+  requestedAt: number;
+  resolve: (worker: WorkerProxy) => void;
+  reject: (error: Error) => void;
+};
+
 /**
  * Represents a pool of worker threads.
  * @template WorkerType - The type of worker thread.
@@ -28,6 +84,16 @@ export class WorkerPool<WorkerType = Worker> {
    */
   public workerMaxCount: number;
 
+  /**
+   * The number of workers the pool keeps even if they are idle.
+   */
+  public workerMinCount: number;
+
+  /**
+   * The store kept in the memory shared with all workers, if configured.
+   */
+  public sharedStore: WorkerSharedStore;
+
   /**
    * The path to the worker loader script.
    */
@@ -36,6 +102,10 @@ export class WorkerPool<WorkerType = Worker> {
    * The path to the worker loader dependencies.
    */
   private workerLoaderDependenciesPath: string;
+  /**
+   * The options of the worker threads, e.g. resource limits or environment variables.
+   */
+  private workerThreadOptions: WorkerThreadOptions;
   /**
    * The list of available worker proxies.
    */
@@ -49,9 +119,101 @@ export class WorkerPool<WorkerType = Worker> {
    */
   private sharedData: unknown;
   /**
-   * The handler function for releasing a worker.
+   * The emitter of the lifecycle events of the pool, its workers and tasks.
+   */
+  private events = new WorkerEventEmitter<WorkerPoolEvents>();
+  /**
+   * The default time (in ms) after which a running task is considered hung.
+   */
+  private taskTimeout: number;
+  /**
+   * The time (in ms) the worker has to confirm the cancellation of a task before it is terminated.
+   */
+  private cancelGracePeriod: number;
+  /**
+   * The base delay (in ms) before a crashed worker is replaced, doubled with each consecutive crash.
+   */
+  private crashRespawnDelay: number;
+  /**
+   * The number of consecutive crashes after which crashed workers are no longer replaced.
+   */
+  private maxConsecutiveCrashes: number;
+  /**
+   * The default policy of retrying the tasks rejected by the worker.
+   */
+  private retryPolicy: RetryPolicy;
+  /**
+   * The number of tasks after which a worker is replaced with a fresh one.
+   */
+  private maxTasksPerWorker: number;
+  /**
+   * The heap usage (in bytes) above which a worker is replaced with a fresh one.
+   */
+  private maxWorkerHeapUsage: number;
+  /**
+   * Whether workers keep their resource loaded between tasks of the same pointer.
+   */
+  private affinity: boolean;
+  /**
+   * The number of workers kept loaded and reserved for each pointer.
+   */
+  private warmReservations: WarmReservations = {};
+  /**
+   * The map of pointers by the workers reserved for them.
+   */
+  private reservedPointers = new Map<WorkerProxy, string>();
+  /**
+   * The time (in ms) between the heartbeats sent to the workers.
+   */
+  private heartbeatInterval: number;
+  /**
+   * The number of heartbeats in a row a worker can miss before it is terminated.
+   */
+  private maxMissedHeartbeats: number;
+  /**
+   * The timer sending the heartbeats to the workers.
+   */
+  private heartbeatTimer: NodeJS.Timeout;
+  /**
+   * The number of worker crashes since the last successfully completed task.
+   */
+  private consecutiveCrashes = 0;
+  /**
+   * The map of handlers failing the tasks run with `execute()` by worker ID.
+   */
+  private taskFailureHandlers = new Map<number, TaskFailureHandler>();
+  /**
+   * The time (in ms) after which an idle worker above the minimum count is terminated.
+   */
+  private idleTimeout: number;
+  /**
+   * The map of idle timers by available worker.
+   */
+  private idleTimers = new Map<WorkerProxy, NodeJS.Timeout>();
+  /**
+   * The number of workers being created on demand.
+   */
+  private spawningCount = 0;
+  /**
+   * Whether the pool stopped accepting new tasks.
+   */
+  private isDraining = false;
+  /**
+   * Whether the pool has been closed and its workers terminated.
+   */
+  private isClosed = false;
+  /**
+   * The handlers waiting for the pool to be drained.
    */
-  private workerReleaseHandler: WorkerReleaseHandler;
+  private drainHandlers: (() => void)[] = [];
+  /**
+   * The queue of requests waiting for a worker to be released.
+   */
+  private taskQueue = new WorkerTaskQueue<WorkerRequest>();
+  /**
+   * The recorder of the task and worker events.
+   */
+  private metrics = new WorkerMetricsRecorder();
 
   /**
    * Sets up the worker pool by creating and initializing the worker proxies.
@@ -63,12 +225,36 @@ export class WorkerPool<WorkerType = Worker> {
     const {
       threadsCount,
       inviolableThreadsCount,
+      minThreads,
+      maxThreads,
+      idleTimeoutMs,
+      maxQueueSize,
+      priorityAgingInterval,
+      taskTimeout,
+      cancelGracePeriod,
+      crashRespawnDelay,
+      maxConsecutiveCrashes,
+      heartbeatInterval,
+      maxMissedHeartbeats,
+      retryPolicy,
+      maxTasksPerWorker,
+      maxWorkerHeapUsageMb,
+      affinity,
+      warmReservations,
+      sharedStore,
       sharedData,
       workerLoaderPath,
       workerLoaderDependenciesPath,
+      resourceLimits,
+      env,
+      execArgv,
+      argv,
+      stdout,
+      stderr,
     } = options;
     this.workerLoaderPath = workerLoaderPath;
     this.workerLoaderDependenciesPath = workerLoaderDependenciesPath;
+    this.workerThreadOptions = { resourceLimits, env, execArgv, argv, stdout, stderr };
 
     const isValidWorkerLoaderPath = testPath(workerLoaderPath);
     const isValidWorkerLoaderDependenciesPath = testPath(workerLoaderDependenciesPath);
@@ -84,14 +270,50 @@ export class WorkerPool<WorkerType = Worker> {
     }
 
     this.sharedData = sharedData;
+    this.sharedStore = sharedStore ? WorkerSharedStore.create(sharedStore) : undefined;
+    this.taskTimeout = taskTimeout;
+    this.cancelGracePeriod = cancelGracePeriod ?? 1000;
+    this.crashRespawnDelay = crashRespawnDelay ?? 100;
+    this.maxConsecutiveCrashes = maxConsecutiveCrashes ?? 10;
+    this.heartbeatInterval = heartbeatInterval;
+    this.maxMissedHeartbeats = maxMissedHeartbeats ?? 3;
+    this.retryPolicy = retryPolicy;
+    this.maxTasksPerWorker = maxTasksPerWorker;
+    this.maxWorkerHeapUsage = (maxWorkerHeapUsageMb ?? 0) * 1024 * 1024;
+    this.affinity = affinity ?? false;
+    this.warmReservations = warmReservations ?? {};
+    this.taskQueue = new WorkerTaskQueue<WorkerRequest>(
+      maxQueueSize,
+      priorityAgingInterval
+    );
+    this.idleTimeout = idleTimeoutMs;
     this.workerMaxCount =
-      threadsCount > inviolableThreadsCount
+      maxThreads ??
+      (threadsCount > inviolableThreadsCount
         ? getWorkersCount(threadsCount, inviolableThreadsCount)
-        : threadsCount;
+        : threadsCount);
+    const reservedCount = Object.values(this.warmReservations).reduce(
+      (sum, count) => sum + count,
+      0
+    );
+    // at least one worker has to stay unreserved for the tasks of other pointers
+    if (reservedCount > 0 && reservedCount >= this.workerMaxCount) {
+      throw new TooManyWarmReservationsError(reservedCount, this.workerMaxCount);
+    }
+    this.workerMinCount = Math.max(
+      Math.min(minThreads ?? this.workerMaxCount, this.workerMaxCount),
+      reservedCount
+    );
 
-    for (let i = 0; i < this.workerMaxCount; i++) {
+    for (let i = 0; i < this.workerMinCount; i++) {
       const worker = await this.createWorker();
-      this.availableWorkers.push(worker);
+      this.addAvailableWorker(worker);
+    }
+
+    if (heartbeatInterval > 0) {
+      this.heartbeatTimer = setInterval(() => this.checkHeartbeats(), heartbeatInterval);
+      // heartbeats should not keep the process alive
+      this.heartbeatTimer.unref();
     }
   }
 
@@ -110,69 +332,1162 @@ export class WorkerPool<WorkerType = Worker> {
    * @returns {Promise<WorkerType & WorkerProxy | null>} A promise that resolves to the worker instance, or null if no worker is available.
    */
   private async createWorker(): Promise<WorkerProxy> {
-    const { sharedData, workerLoaderPath, workerLoaderDependenciesPath } = this;
-    const proxy = new WorkerProxy(sharedData, {
+    const {
+      sharedData,
       workerLoaderPath,
       workerLoaderDependenciesPath,
-    });
+      workerThreadOptions,
+      sharedStore,
+    } = this;
+    const proxy = new WorkerProxy(
+      sharedData,
+      { workerLoaderPath, workerLoaderDependenciesPath, ...workerThreadOptions },
+      sharedStore?.state
+    );
+    proxy.onCrash((id, error) => this.handleWorkerCrash(id, proxy, error));
+    proxy.onExit((id, code) => this.events.emit('workerExited', id, code));
     await proxy.setup();
+    this.metrics.recordWorkerSpawned();
+    this.events.emit('workerCreated', proxy.id);
+    const reservedPointer = this.getMissingReservation();
+    if (reservedPointer !== undefined) {
+      await this.reserveWorker(proxy, reservedPointer);
+    }
     return proxy;
   }
 
+  /**
+   * Returns the first pointer that has fewer reserved workers than declared
+   * in the warm reservations.
+   * @returns {string} The pointer, or undefined if all reservations are filled.
+   */
+  private getMissingReservation(): string {
+    const { warmReservations, reservedPointers } = this;
+    const reservedCounts = new Map<string, number>();
+    reservedPointers.forEach(pointer => {
+      reservedCounts.set(pointer, (reservedCounts.get(pointer) ?? 0) + 1);
+    });
+    return Object.keys(warmReservations).find(
+      pointer => (reservedCounts.get(pointer) ?? 0) < warmReservations[pointer]
+    );
+  }
+
+  /**
+   * Reserves the new worker for the pointer and loads its resource in advance.
+   * If loading fails, the worker stays unreserved and the reservation is filled
+   * by the next created worker.
+   * @param {WorkerProxy} worker - The new worker.
+   * @param {string} pointer - The pointer the worker is reserved for.
+   * @returns {Promise<void>} A promise that resolves when the worker is ready.
+   */
+  private async reserveWorker(worker: WorkerProxy, pointer: string): Promise<void> {
+    const { reservedPointers } = this;
+    // the reservation is taken at once, so that concurrently created workers skip it
+    reservedPointers.set(worker, pointer);
+    try {
+      await worker.load(pointer);
+      this.events.emit('workerLoaded', worker.id, pointer);
+    } catch (error) {
+      reservedPointers.delete(worker);
+      console.warn(
+        `Failed to load "${pointer}" in the reserved worker #${worker.id}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Adds the worker to the list of available workers. If the pool is elastic,
+   * the worker is terminated after staying idle for too long.
+   * @param {WorkerProxy} worker - The worker to be added.
+   */
+  private addAvailableWorker(worker: WorkerProxy): void {
+    const { availableWorkers, idleTimeout, idleTimers } = this;
+
+    if (this.isClosed) {
+      // the worker was created while the pool was closing
+      worker.remove().catch(error => console.warn(`Failed to remove worker`, error));
+      return;
+    }
+
+    availableWorkers.push(worker);
+
+    // reserved workers are kept even if they are idle
+    if (idleTimeout > 0 && this.reservedPointers.has(worker) === false) {
+      const timer = setTimeout(() => this.reapIdleWorker(worker), idleTimeout);
+      // idle workers should not keep the process alive
+      timer.unref();
+      idleTimers.set(worker, timer);
+    }
+  }
+
+  /**
+   * Finds the available worker that should run the task of the pointer.
+   * A worker reserved for the pointer is preferred, then in the affinity mode a worker
+   * that has the resource of the pointer already loaded, then the first one.
+   * Workers reserved for other pointers are never chosen.
+   * @param {string} [pointer] - The pointer value of the resource to be loaded by the worker.
+   * @returns {number} The index of the worker in the list of available workers, or -1 if there is none.
+   */
+  private findAvailableWorker(pointer?: string): number {
+    const { availableWorkers, reservedPointers } = this;
+    const reservedIndex = availableWorkers.findIndex(
+      worker => reservedPointers.has(worker) && reservedPointers.get(worker) === pointer
+    );
+    if (reservedIndex > -1) {
+      return reservedIndex;
+    }
+    const warmIndex = this.affinity
+      ? availableWorkers.findIndex(
+          worker =>
+            reservedPointers.has(worker) === false && this.isWarmWorker(worker, pointer)
+        )
+      : -1;
+    if (warmIndex > -1) {
+      return warmIndex;
+    }
+    return availableWorkers.findIndex(worker => reservedPointers.has(worker) === false);
+  }
+
+  /**
+   * Takes the available worker that should run the task of the pointer.
+   * @param {string} [pointer] - The pointer value of the resource to be loaded by the worker.
+   * @returns {WorkerProxy} The worker, or undefined if there is no suitable available worker.
+   */
+  private takeAvailableWorker(pointer?: string): WorkerProxy {
+    const index = this.findAvailableWorker(pointer);
+    if (index === -1) {
+      return undefined;
+    }
+    const [worker] = this.availableWorkers.splice(index, 1);
+    this.clearIdleTimer(worker);
+    return worker;
+  }
+
+  /**
+   * Checks if the worker has the resource of the pointer loaded and can run its task
+   * without loading it again.
+   * @param {WorkerProxy} worker - The worker.
+   * @param {string} [pointer] - The pointer value of the resource.
+   * @returns {boolean} True if the resource is loaded, false otherwise.
+   */
+  private isWarmWorker(worker: WorkerProxy, pointer?: string): boolean {
+    return worker.isLoaded && worker.pointer === pointer;
+  }
+
+  /**
+   * Checks if the worker keeps its resource loaded between tasks,
+   * i.e. the pool is in the affinity mode or the worker is reserved.
+   * @param {WorkerProxy} worker - The worker.
+   * @returns {boolean} True if the resource is not disposed on release, false otherwise.
+   */
+  private keepsResourceLoaded(worker: WorkerProxy): boolean {
+    return this.affinity || this.reservedPointers.has(worker);
+  }
+
+  /**
+   * Removes the given worker from the list of available workers.
+   * @param {WorkerProxy} worker - The worker to be removed.
+   * @returns {boolean} True if the worker was available, false otherwise.
+   */
+  private removeAvailableWorker(worker: WorkerProxy): boolean {
+    const { availableWorkers } = this;
+    const index = availableWorkers.indexOf(worker);
+    if (index > -1) {
+      availableWorkers.splice(index, 1);
+      this.clearIdleTimer(worker);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Clears the idle timer of the worker.
+   * @param {WorkerProxy} worker - The worker.
+   */
+  private clearIdleTimer(worker: WorkerProxy): void {
+    const { idleTimers } = this;
+    if (idleTimers.has(worker)) {
+      clearTimeout(idleTimers.get(worker));
+      idleTimers.delete(worker);
+    }
+  }
+
+  /**
+   * Terminates the idle worker unless the pool would drop below the minimum count.
+   * @param {WorkerProxy} worker - The idle worker.
+   */
+  private reapIdleWorker(worker: WorkerProxy): void {
+    this.idleTimers.delete(worker);
+    if (this.workerCount > this.workerMinCount && this.removeAvailableWorker(worker)) {
+      worker.remove().catch(error => console.warn(`Failed to remove idle worker`, error));
+    }
+  }
+
+  /**
+   * Creates new workers for the queued requests, as long as the pool has not reached
+   * its maximum size. Failed attempts are retried like crashed workers.
+   */
+  private spawnWorkers(): void {
+    const { taskQueue, availableWorkers, workerMaxCount, maxConsecutiveCrashes } = this;
+    // the queued requests cannot be run by the idle workers reserved for other pointers
+    const unreservedCount = availableWorkers.filter(
+      worker => this.reservedPointers.has(worker) === false
+    ).length;
+
+    while (
+      taskQueue.size > unreservedCount + this.spawningCount &&
+      this.workerCount + this.spawningCount < workerMaxCount &&
+      this.consecutiveCrashes <= maxConsecutiveCrashes
+    ) {
+      this.spawnWorker();
+    }
+  }
+
+  /**
+   * Creates a worker in the background and adds it to the pool. Until then, it counts
+   * as being spawned. A worker that no longer fits in the pool is terminated,
+   * failed attempts are retried like crashed workers.
+   * @param {Promise<unknown>} [previous] - The step to complete first, e.g. the termination of the replaced worker.
+   */
+  private spawnWorker(previous: Promise<unknown> = Promise.resolve()): void {
+    this.spawningCount++;
+    previous
+      .then(() => this.createWorker())
+      .then(
+        worker => {
+          this.spawningCount--;
+          if (this.isClosed || this.workerCount >= this.workerMaxCount) {
+            this.reservedPointers.delete(worker);
+            worker
+              .remove()
+              .catch(error => console.warn(`Failed to remove surplus worker`, error));
+            return;
+          }
+          this.addAvailableWorker(worker);
+          this.dispatchQueuedRequests();
+        },
+        error => {
+          this.spawningCount--;
+          this.scheduleRespawn(error);
+        }
+      );
+  }
+
+  /**
+   * Sends a heartbeat to each worker of the pool. A worker that has missed
+   * too many heartbeats in a row is considered hung and gets terminated.
+   */
+  private checkHeartbeats(): void {
+    const { availableWorkers, activeWorkersByPid, maxMissedHeartbeats } = this;
+    [...availableWorkers, ...activeWorkersByPid.values()].forEach(worker => {
+      if (worker.missedHeartbeats >= maxMissedHeartbeats) {
+        this.handleUnresponsiveWorker(worker);
+      } else {
+        worker.ping();
+      }
+    });
+  }
+
+  /**
+   * Terminates the hung worker and handles it like a crashed one: it is purged
+   * from the pool, its task (if any) fails with `WorkerUnresponsiveError`
+   * and a replacement is scheduled.
+   * @param {WorkerProxy} worker - The unresponsive worker.
+   */
+  private handleUnresponsiveWorker(worker: WorkerProxy): void {
+    const { id, missedHeartbeats } = worker;
+    this.events.emit('workerUnresponsive', id, missedHeartbeats);
+    this.handleWorkerCrash(id, worker, new WorkerUnresponsiveError(id, missedHeartbeats));
+    worker
+      .remove()
+      .catch(error => console.warn(`Failed to remove the worker #${id}`, error));
+  }
+
+  /**
+   * Purges the crashed worker from the pool, fails its task (if any)
+   * and schedules a replacement. The delay before the replacement grows with
+   * each consecutive crash and after too many of them workers are no longer replaced.
+   * @param {number} id - The ID of the crashed worker.
+   * @param {WorkerProxy} worker - The crashed worker.
+   * @param {WorkerCrashedError | WorkerUnresponsiveError} error - The crash error.
+   */
+  private handleWorkerCrash(
+    id: number,
+    worker: WorkerProxy,
+    error: WorkerCrashedError | WorkerUnresponsiveError
+  ) {
+    const { activeWorkersByPid, taskFailureHandlers } = this;
+
+    if (activeWorkersByPid.get(id) === worker) {
+      activeWorkersByPid.delete(id);
+    } else if (this.removeAvailableWorker(worker) === false) {
+      // the worker is not (or not yet) a part of the pool
+      return;
+    }
+    // the replacement takes over the reservation
+    this.reservedPointers.delete(worker);
+    this.metrics.recordWorkerCrashed();
+
+    const failTask = taskFailureHandlers.get(id);
+    if (failTask) {
+      failTask(error);
+    }
+
+    this.notifyIfDrained();
+    if (this.isClosed === false) {
+      this.scheduleRespawn(error);
+    }
+  }
+
+  /**
+   * Schedules the creation of a worker in place of the crashed one.
+   * @param {Error} error - The reason of the respawn.
+   */
+  private scheduleRespawn(error: Error) {
+    const { crashRespawnDelay, maxConsecutiveCrashes } = this;
+    this.consecutiveCrashes++;
+
+    if (this.consecutiveCrashes > maxConsecutiveCrashes) {
+      console.warn(
+        `Workers crashed ${this.consecutiveCrashes} times in a row, the crashed worker will not be replaced.`,
+        error
+      );
+      if (this.isExhausted()) {
+        const exhaustedError = new PoolExhaustedError(this.consecutiveCrashes, error);
+        this.taskQueue.clear().forEach(({ reject }) => reject(exhaustedError));
+        this.notifyIfDrained();
+      }
+      return;
+    }
+
+    const delay = crashRespawnDelay * 2 ** (this.consecutiveCrashes - 1);
+    // the pending respawn counts as being spawned during the delay
+    this.spawningCount++;
+    setTimeout(() => {
+      this.spawningCount--;
+      if (this.isClosed) {
+        return;
+      }
+      this.spawnWorker();
+    }, delay);
+  }
+
   /**
    * Retrieves an available worker from the pool.
+   * If all workers are busy, the request is queued until one of them is released
+   * or, if the pool has not reached its maximum size, a new one is created.
    * @param {string} [pointer] - The pointer value of the resource to be loaded by the worker.
-   * @returns {Promise<WorkerType & WorkerProxy | null>} A promise that resolves to the worker instance, or null if no worker is available.
+   * @param {TaskOptions} [options] - The options of the request, e.g. its priority in the queue.
+   * @template T - The type of the worker, determines the types of the task data, progress and result.
+   * @returns {Promise<WorkerProxy>} A promise that resolves to the worker instance.
+   * @throws {TaskQueueFullError} If all workers are busy and the queue is full.
+   * @throws {TaskCancelledError} If the signal was aborted before the worker was retrieved.
+   * @throws {WorkerCrashedError} If the worker thread exited while loading the resource.
+   * @throws {PoolClosedError} If the pool is drained or closed.
+   * @throws {PoolExhaustedError} If the workers crashed too many times in a row and none is left.
    */
-  public async getWorker(pointer?: string): Promise<WorkerType & WorkerProxy> {
-    const { activeWorkersByPid, workerMaxCount, availableWorkers } = this;
+  public async getWorker<T = WorkerType>(
+    pointer?: string,
+    options?: TaskOptions
+  ): Promise<TypedWorkerProxy<T>> {
+    const { activeWorkersByPid, workerMaxCount, taskQueue } = this;
+    const signal = options?.signal;
+
+    if (this.isDraining) {
+      throw new PoolClosedError();
+    }
 
-    if (activeWorkersByPid.size < workerMaxCount) {
+    if (signal?.aborted) {
+      throw new TaskCancelledError();
+    }
+
+    if (this.isExhausted()) {
+      throw new PoolExhaustedError(this.consecutiveCrashes);
+    }
+
+    if (
+      taskQueue.size === 0 &&
+      activeWorkersByPid.size < workerMaxCount &&
+      this.findAvailableWorker(pointer) > -1
+    ) {
       // When workers are to run common or concrete process,
       // we use instance from the list (if there is any available)
-      const worker = availableWorkers.shift();
-      if (worker) {
-        activeWorkersByPid.set(worker.id, worker);
-        await worker.load(pointer);
-        return worker as WorkerType & WorkerProxy;
+      this.metrics.recordQueueWait(0);
+      const worker = await this.activateWorker(
+        this.takeAvailableWorker(pointer),
+        pointer
+      );
+      return worker as TypedWorkerProxy<T>;
+    }
+
+    let onAbort: () => void;
+    try {
+      const worker = await new Promise<WorkerProxy>((resolve, reject) => {
+        const request = { pointer, requestedAt: Date.now(), resolve, reject };
+        taskQueue.enqueue(request, options?.priority);
+        onAbort = () => {
+          if (taskQueue.remove(request)) {
+            reject(new TaskCancelledError());
+            this.notifyIfDrained();
+          }
+        };
+        signal?.addEventListener('abort', onAbort);
+        // an idle worker reserved for the pointer can take the request at once,
+        // even if the requests queued before wait for other workers
+        this.dispatchQueuedRequests();
+        this.spawnWorkers();
+      });
+      return worker as TypedWorkerProxy<T>;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Marks the worker as active and loads the given resource in it, unless
+   * it is already loaded in the affinity mode or the worker is reserved for it.
+   * If loading fails, the worker is returned to the pool, unless its thread exited.
+   * @param {WorkerProxy} worker - The worker to be activated.
+   * @param {string} [pointer] - The pointer value of the resource to be loaded by the worker.
+   * @returns {Promise<WorkerProxy>} A promise that resolves to the worker instance.
+   */
+  private async activateWorker(
+    worker: WorkerProxy,
+    pointer?: string
+  ): Promise<WorkerProxy> {
+    const { activeWorkersByPid } = this;
+    const { id } = worker;
+    activeWorkersByPid.set(id, worker);
+    if (this.keepsResourceLoaded(worker) && this.isWarmWorker(worker, pointer)) {
+      return worker;
+    }
+    try {
+      await worker.load(pointer);
+    } catch (error) {
+      if (error instanceof WorkerCrashedError) {
+        // the thread exited, the crash handler has already purged the worker
+        throw error;
       }
-      return null;
-    } else {
-      return null;
+      // the worker is still usable, return it to the pool before passing on the error
+      activeWorkersByPid.delete(id);
+      this.addAvailableWorker(worker);
+      this.dispatchQueuedRequests();
+      this.notifyIfDrained();
+      throw error;
+    }
+    this.events.emit('workerLoaded', worker.id, pointer);
+    return worker;
+  }
+
+  /**
+   * Hands over available workers to the queued requests, the highest priority first.
+   * Requests that only workers reserved for other pointers could run keep waiting.
+   */
+  private dispatchQueuedRequests(): void {
+    const { activeWorkersByPid, workerMaxCount, availableWorkers, taskQueue } = this;
+
+    while (
+      taskQueue.size > 0 &&
+      activeWorkersByPid.size < workerMaxCount &&
+      availableWorkers.length > 0
+    ) {
+      const request = taskQueue.dequeue(
+        queued => this.findAvailableWorker(queued.pointer) > -1
+      );
+      if (!request) {
+        break;
+      }
+      const { pointer, requestedAt, resolve, reject } = request;
+      this.metrics.recordQueueWait(Date.now() - requestedAt);
+      this.activateWorker(this.takeAvailableWorker(pointer), pointer).then(
+        resolve,
+        reject
+      );
     }
   }
 
   /**
-   * Releases a worker back to the pool.
+   * Connects two workers with a dedicated channel, so that they can exchange messages
+   * with `Worker.sendToPeer()` without passing them through the main thread,
+   * e.g. to stream data between the stages of a pipeline.
+   * The channel is closed when one of the workers is released or its thread exits.
+   * @param {WorkerProxy} first - The first worker.
+   * @param {WorkerProxy} second - The second worker.
+   */
+  public connectWorkers(first: WorkerProxy, second: WorkerProxy): void {
+    const { port1, port2 } = new MessageChannel();
+    first.connect(second.id, port1);
+    second.connect(first.id, port2);
+  }
+
+  /**
+   * Returns the number of available workers by the pointer of the resource they have
+   * loaded. In the affinity mode, these workers run the tasks of the pointer without
+   * loading it again.
+   * @returns {Object} The number of warm workers by pointer.
+   */
+  public getWarmWorkerCounts(): { [pointer: string]: number } {
+    const counts: { [pointer: string]: number } = {};
+    this.availableWorkers.forEach(worker => {
+      if (worker.isLoaded) {
+        counts[worker.pointer] = (counts[worker.pointer] ?? 0) + 1;
+      }
+    });
+    return counts;
+  }
+
+  /**
+   * Returns the number of requests waiting for a worker.
+   * @returns {number} The number of queued requests.
+   */
+  public countQueuedTasks(): number {
+    return this.taskQueue.size;
+  }
+
+  /**
+   * Releases a worker back to the pool. In the affinity mode and for reserved workers,
+   * the resource stays loaded for the next task of the same pointer.
    * @param {number} id - The ID of the worker to be released.
    * @param {unknown} [data] - Additional data to be passed to the worker release handler.
    * @returns {Promise<void>} A promise that resolves when the worker is released.
    */
   public async releaseWorker(id: number, data?: unknown): Promise<void> {
-    const { activeWorkersByPid, availableWorkers, workerMaxCount, workerReleaseHandler } =
-      this;
+    const { activeWorkersByPid, availableWorkers, workerMaxCount } = this;
     const worker = activeWorkersByPid.get(id);
 
     if (worker) {
-      await worker.dispose();
-      this.activeWorkersByPid.delete(id);
-      if (availableWorkers.length < workerMaxCount) {
-        availableWorkers.push(worker);
+      try {
+        if (this.keepsResourceLoaded(worker)) {
+          await worker.detach();
+        } else {
+          await worker.dispose();
+        }
+      } catch (error) {
+        if (error instanceof WorkerCrashedError) {
+          // the thread exited, the crash handler has already purged the worker
+          return;
+        }
+        throw error;
       }
-      if (workerReleaseHandler) {
-        await workerReleaseHandler(id, data);
+      this.activeWorkersByPid.delete(id);
+      this.consecutiveCrashes = 0;
+      if (this.isWorkerExhausted(worker)) {
+        this.recycleWorker(id, worker);
+      } else if (availableWorkers.length < workerMaxCount) {
+        this.addAvailableWorker(worker);
       }
+      this.dispatchQueuedRequests();
+      this.notifyIfDrained();
+      await this.events.emit('workerReleased', id, data);
     } else {
       console.log(`No worker with the specified ID #${id} was found`);
     }
   }
 
+  /**
+   * Checks if the worker has run too many tasks or uses too much memory to be reused.
+   * @param {WorkerProxy} worker - The released worker.
+   * @returns {boolean} True if the worker should be recycled, false otherwise.
+   */
+  private isWorkerExhausted(worker: WorkerProxy): boolean {
+    const { maxTasksPerWorker, maxWorkerHeapUsage } = this;
+    return (
+      (maxTasksPerWorker > 0 && worker.taskCount >= maxTasksPerWorker) ||
+      (maxWorkerHeapUsage > 0 && worker.heapUsage >= maxWorkerHeapUsage)
+    );
+  }
+
+  /**
+   * Closes and terminates the released worker in the background and adds a fresh one
+   * to the pool. Until then, the new worker counts as being spawned.
+   * @param {number} id - The ID of the worker to be recycled.
+   * @param {WorkerProxy} worker - The worker to be recycled.
+   */
+  private recycleWorker(id: number, worker: WorkerProxy): void {
+    // the fresh worker takes over the reservation
+    this.reservedPointers.delete(worker);
+    this.spawnWorker(
+      worker
+        .close()
+        .catch(error => console.warn(`Failed to close the worker #${id}`, error))
+        .then(() => worker.remove())
+    );
+  }
+
+  /**
+   * Terminates the active worker in the background and puts a fresh one in its place,
+   * so that the pool keeps its size. Until then, the new worker counts as being spawned.
+   * @param {number} id - The ID of the worker to be replaced.
+   * @param {WorkerProxy} worker - The worker to be replaced.
+   * @returns {Promise<void>} A promise that resolves when the worker is released.
+   */
+  private async replaceWorker(id: number, worker: WorkerProxy): Promise<void> {
+    const { activeWorkersByPid } = this;
+    activeWorkersByPid.delete(id);
+    // the fresh worker takes over the reservation
+    this.reservedPointers.delete(worker);
+    this.spawnWorker(
+      worker
+        .remove()
+        .catch(error => console.warn(`Failed to terminate the worker #${id}`, error))
+    );
+
+    this.dispatchQueuedRequests();
+    this.notifyIfDrained();
+    await this.events.emit('workerReleased', id);
+  }
+
+  /**
+   * Executes a task on a worker from the pool and returns the result.
+   * The worker is always returned to the pool, regardless of the outcome of the task.
+   * If the task does not complete within the timeout, the worker is terminated
+   * and replaced with a fresh one. The same happens when the task is cancelled
+   * with the signal and the worker does not confirm it within the grace period.
+   * A rejected task is run again according to the retry policy of the task or the pool.
+   *
+   * @template T - The type of the worker, determines the types of the task data and result.
+   * @param {string} pointer - The pointer value of the resource to be loaded by the worker.
+   * @param {WorkerInput<T>} [data] - The task data to be sent to the worker.
+   * @param {TaskOptions} [options] - The options of the task.
+   * @returns {Promise<WorkerOutput<T>>} A promise that resolves with the data passed to `resolve()` by the worker.
+   * @throws {TaskQueueFullError} If all workers are busy and the queue is full.
+   * @throws {TaskRejectedError} If the worker rejected the task and it should not be retried, with the history of all attempts.
+   * @throws {TaskTimeoutError} If the task did not complete within the timeout.
+   * @throws {TaskCancelledError} If the task was cancelled with the signal.
+   * @throws {WorkerCrashedError} If the worker thread crashed while running the task.
+   * @throws {WorkerUnresponsiveError} If the worker thread stopped answering the heartbeats while running the task.
+   */
+  public async execute<T = WorkerType>(
+    pointer: string,
+    data?: WorkerInput<T>,
+    options?: TaskOptions
+  ): Promise<WorkerOutput<T>> {
+    return this.executeWithProgress<T>(pointer, data, null, options);
+  }
+
+  /**
+   * Executes a task on a worker from the pool and returns the result.
+   * Each progress reported by the worker is passed to the given handler.
+   * The worker is always returned to the pool, regardless of the outcome of the task.
+   *
+   * @template T - The type of the worker, determines the types of the task data, progress and result.
+   * @param {string} pointer - The pointer value of the resource to be loaded by the worker.
+   * @param {WorkerInput<T>} [data] - The task data to be sent to the worker.
+   * @param {TaskProgressHandler<WorkerProgress<T>>} [onProgress] - The handler of the task progress.
+   * @param {TaskOptions} [options] - The options of the task.
+   * @returns {Promise<WorkerOutput<T>>} A promise that resolves with the data passed to `resolve()` by the worker.
+   * @throws {TaskQueueFullError} If all workers are busy and the queue is full.
+   * @throws {TaskRejectedError} If the worker rejected the task and it should not be retried, with the history of all attempts.
+   * @throws {TaskTimeoutError} If the task did not complete within the timeout.
+   * @throws {TaskCancelledError} If the task was cancelled with the signal.
+   * @throws {WorkerCrashedError} If the worker thread crashed while running the task.
+   * @throws {WorkerUnresponsiveError} If the worker thread stopped answering the heartbeats while running the task.
+   */
+  public async executeWithProgress<T = WorkerType>(
+    pointer: string,
+    data?: WorkerInput<T>,
+    onProgress?: TaskProgressHandler<WorkerProgress<T>>,
+    options?: TaskOptions
+  ): Promise<WorkerOutput<T>> {
+    const policy: RetryPolicy = { ...this.retryPolicy, ...options?.retry };
+    const { maxAttempts = 1, retryIf } = policy;
+    const attempts: TaskAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
+      try {
+        return await this.runTask<WorkerOutput<T>, WorkerInput<T>, WorkerProgress<T>>(
+          pointer,
+          data,
+          onProgress,
+          options
+        );
+      } catch (error) {
+        if (error instanceof TaskRejectedError === false) {
+          throw error;
+        }
+        const { workerId, error: errorJson, cause } = error as TaskRejectedError;
+        attempts.push({
+          attempt,
+          workerId,
+          error: errorJson,
+          startedAt,
+          finishedAt: Date.now(),
+        });
+
+        // transferred objects were moved with the first attempt and cannot be sent again
+        if (
+          attempt >= maxAttempts ||
+          this.isDraining ||
+          options?.transferList?.length > 0 ||
+          (retryIf && retryIf(errorJson, attempt) === false)
+        ) {
+          throw new TaskRejectedError(workerId, errorJson, attempts, cause as Error);
+        }
+
+        await this.waitForRetry(getRetryDelay(policy, attempt), options?.signal);
+      }
+    }
+  }
+
+  /**
+   * Executes a task on a worker from the pool and streams its progress.
+   * The returned iterable yields each progress reported by the worker, completes
+   * when the task is resolved and throws when it fails. The result of the task
+   * is the return value of the iterator. When the consumer stops the iteration early,
+   * the task is cancelled.
+   *
+   * @template T - The type of the worker, determines the types of the task data, progress and result.
+   * @param {string} pointer - The pointer value of the resource to be loaded by the worker.
+   * @param {WorkerInput<T>} [data] - The task data to be sent to the worker.
+   * @param {TaskOptions} [options] - The options of the task.
+   * @returns {AsyncGenerator<WorkerProgress<T>, WorkerOutput<T>>} The progress of the task.
+   * @throws {TaskRejectedError} If the worker rejected the task and it should not be retried, with the history of all attempts.
+   * @throws {TaskTimeoutError} If the task did not complete within the timeout.
+   * @throws {TaskCancelledError} If the task was cancelled with the signal.
+   * @throws {WorkerCrashedError} If the worker thread crashed while running the task.
+   * @throws {WorkerUnresponsiveError} If the worker thread stopped answering the heartbeats while running the task.
+   */
+  public async *stream<T = WorkerType>(
+    pointer: string,
+    data?: WorkerInput<T>,
+    options?: TaskOptions
+  ): AsyncGenerator<WorkerProgress<T>, WorkerOutput<T>, undefined> {
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    const progressQueue: WorkerProgress<T>[] = [];
+    let isSettled = false;
+    let notify: () => void;
+
+    if (options?.signal?.aborted) {
+      abortController.abort();
+    }
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const task = this.executeWithProgress<T>(
+      pointer,
+      data,
+      progress => {
+        progressQueue.push(progress);
+        notify?.();
+      },
+      { ...options, signal: abortController.signal }
+    );
+    const onSettled = () => {
+      isSettled = true;
+      notify?.();
+    };
+    task.then(onSettled, onSettled);
+
+    try {
+      while (progressQueue.length > 0 || isSettled === false) {
+        if (progressQueue.length > 0) {
+          yield progressQueue.shift();
+        } else {
+          await new Promise<void>(resolve => (notify = resolve));
+          notify = undefined;
+        }
+      }
+      return await task;
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+      if (isSettled === false) {
+        // the consumer stopped the iteration, the task is no longer needed
+        abortController.abort();
+      }
+    }
+  }
+
+  /**
+   * Executes a task for each of the items on the workers of the pool, running
+   * at most `options.concurrency` of them at once (the maximum number of workers
+   * by default). Each item is run like with `execute()`, with the given task options.
+   * The results keep the order of the items, unless `options.ordered` is false,
+   * in which case they are listed as the tasks finish. A failed item does not stop
+   * the others and is listed with its error, unless `options.stopOnError` is set.
+   * After each item, `options.onProgress` receives the counts of finished items.
+   *
+   * @template T - The type of the worker, determines the types of the task data and result.
+   * @param {WorkerInput<T>[]} items - The task data of each task.
+   * @param {string} pointer - The pointer value of the resource to be loaded by the workers.
+   * @param {MapOptions} [options] - The options of the tasks.
+   * @returns {Promise<MapItemResult<WorkerOutput<T>>[]>} A promise that resolves with the result or the error of each item.
+   * @throws {Error} The error of the first failed item, if `options.stopOnError` is set. The remaining items are not run and the running ones are cancelled.
+   */
+  public async map<T = WorkerType>(
+    items: WorkerInput<T>[],
+    pointer: string,
+    options: MapOptions = {}
+  ): Promise<MapItemResult<WorkerOutput<T>>[]> {
+    const {
+      concurrency,
+      ordered = true,
+      stopOnError,
+      onProgress,
+      ...taskOptions
+    } = options;
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    const progress = { total: items.length, completed: 0, failed: 0 };
+    const results: MapItemResult<WorkerOutput<T>>[] = [];
+    const runnersCount = Math.min(
+      Math.max(concurrency ?? this.workerMaxCount, 1),
+      items.length
+    );
+    let nextIndex = 0;
+    let failure: Error;
+
+    if (options.signal?.aborted) {
+      abortController.abort();
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const runItems = async () => {
+      while (nextIndex < items.length && failure === undefined) {
+        const index = nextIndex++;
+        let result: MapItemResult<WorkerOutput<T>>;
+        try {
+          const value = await this.execute<T>(pointer, items[index], {
+            ...taskOptions,
+            signal: abortController.signal,
+          });
+          result = { index, status: 'fulfilled', value };
+          progress.completed++;
+        } catch (error) {
+          if (failure !== undefined) {
+            // the task was cancelled due to the failure of another item
+            return;
+          }
+          result = { index, status: 'rejected', reason: error };
+          progress.failed++;
+          if (stopOnError) {
+            failure = error;
+            abortController.abort();
+          }
+        }
+        if (ordered) {
+          results[index] = result;
+        } else {
+          results.push(result);
+        }
+        await onProgress?.({ ...progress });
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: runnersCount }, runItems));
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (failure !== undefined) {
+      throw failure;
+    }
+    return results;
+  }
+
+  /**
+   * Executes the tasks of the graph on the workers of the pool. Each node runs
+   * like with `execute()` once the nodes it depends on are resolved, with their outputs
+   * as its input. Independent nodes run in parallel. When a node fails, the nodes
+   * depending on it are skipped, or with `TaskGraphFailurePolicy.Cancel` the whole graph
+   * is cancelled.
+   *
+   * @param {TaskGraph} graph - The nodes of the graph by name.
+   * @param {TaskGraphOptions} [options] - The failure policy and the signal cancelling the graph.
+   * @returns {Promise<TaskGraphResults>} A promise that resolves with the status and the result or the error of each node.
+   * @throws {UnknownTaskDependencyError} If a node depends on a node that is not in the graph.
+   * @throws {TaskGraphCycleError} If the nodes depend on each other in a cycle.
+   */
+  public async executeGraph(
+    graph: TaskGraph,
+    options?: TaskGraphOptions
+  ): Promise<TaskGraphResults> {
+    const taskGraph = new WorkerTaskGraph(graph);
+    return taskGraph.run(
+      (pointer, data, taskOptions) => this.execute<Worker>(pointer, data, taskOptions),
+      options
+    );
+  }
+
+  /**
+   * Waits before the next attempt of a rejected task.
+   * @param {number} delay - The time (in ms) to wait.
+   * @param {AbortSignal} [signal] - The signal cancelling the task.
+   * @returns {Promise<void>} A promise that resolves when the time is up.
+   * @throws {TaskCancelledError} If the task was cancelled in the meantime.
+   */
+  private waitForRetry(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new TaskCancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delay);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Runs a single attempt of the task on a worker from the pool.
+   *
+   * @param {string} pointer - The pointer value of the resource to be loaded by the worker.
+   * @param {DataType} [data] - The task data to be sent to the worker.
+   * @param {TaskProgressHandler<ProgressType>} [onProgress] - The handler of the task progress.
+   * @param {TaskOptions} [options] - The options of the task.
+   * @returns {Promise<ResultType>} A promise that resolves with the data passed to `resolve()` by the worker.
+   */
+  private async runTask<ResultType, DataType, ProgressType>(
+    pointer: string,
+    data?: DataType,
+    onProgress?: TaskProgressHandler<ProgressType>,
+    options?: TaskOptions
+  ): Promise<ResultType> {
+    const worker: WorkerProxy = await this.getWorker(pointer, options);
+    const { id } = worker;
+    const { cancelGracePeriod } = this;
+    const timeout = options?.timeout ?? this.taskTimeout;
+    const signal = options?.signal;
+    let isWorkerCrashed = false;
+    let isWorkerHung = false;
+    let startedAt: number;
+    let outcome = TaskOutcome.Failed;
+    let timer: NodeJS.Timeout;
+    let cancelTimer: NodeJS.Timeout;
+    let onAbort: () => void;
+
+    try {
+      return await new Promise<ResultType>((resolve, reject) => {
+        if (signal?.aborted) {
+          return reject(new TaskCancelledError(id));
+        }
+        if (timeout > 0) {
+          timer = setTimeout(() => {
+            isWorkerHung = true;
+            reject(new TaskTimeoutError(id, timeout));
+          }, timeout);
+        }
+        onAbort = () => {
+          worker.cancel();
+          cancelTimer = setTimeout(() => {
+            isWorkerHung = true;
+            reject(new TaskCancelledError(id));
+          }, cancelGracePeriod);
+        };
+        signal?.addEventListener('abort', onAbort);
+        worker.onMessage(async (message: WorkerMessage) => {
+          if (message.isTaskResolved()) {
+            outcome = TaskOutcome.Resolved;
+            this.events.emit('taskResolved', id, message.data);
+            resolve(message.data as ResultType);
+          } else if (message.isTaskCancelled()) {
+            reject(new TaskCancelledError(id));
+          } else if (message.isTaskRejected()) {
+            const error = new TaskRejectedError(
+              message.workerId,
+              message.error,
+              [],
+              message.toError()
+            );
+            outcome = TaskOutcome.Rejected;
+            this.events.emit('taskRejected', id, error);
+            reject(error);
+          } else if (message.isTaskProgress()) {
+            this.events.emit('taskProgress', id, message.data);
+            if (onProgress) {
+              await onProgress(message.data as ProgressType);
+            }
+          }
+        });
+        this.taskFailureHandlers.set(id, error => {
+          isWorkerCrashed = true;
+          reject(error);
+        });
+        startedAt = Date.now();
+        this.metrics.recordTaskStarted(pointer ?? '');
+        this.events.emit('taskStarted', id, pointer);
+        worker.run(data, options?.transferList);
+      });
+    } finally {
+      if (startedAt !== undefined) {
+        this.metrics.recordTaskFinished(pointer ?? '', outcome, Date.now() - startedAt);
+      }
+      clearTimeout(timer);
+      clearTimeout(cancelTimer);
+      signal?.removeEventListener('abort', onAbort);
+      this.taskFailureHandlers.delete(id);
+      if (isWorkerHung) {
+        // The worker may be stuck, so it cannot be disposed and reused.
+        await this.replaceWorker(id, worker);
+      } else if (isWorkerCrashed === false) {
+        await this.releaseWorker(id);
+      }
+      // a crashed worker has already been purged from the pool
+    }
+  }
+
+  /**
+   * Returns the snapshot of the pool metrics: the tasks started, resolved, rejected
+   * and failed by pointer, the histograms of task durations and queue waits (in ms),
+   * the number of spawned and crashed workers and the state of each worker thread.
+   * Use `formatPrometheusMetrics()` to expose them to Prometheus.
+   * @returns {WorkerPoolMetrics} The metrics of the pool.
+   */
+  public getMetrics(): WorkerPoolMetrics {
+    const { availableWorkers, activeWorkersByPid, taskQueue } = this;
+    const toThreadMetrics = (worker: WorkerProxy, active: boolean) => ({
+      id: worker.id,
+      active,
+      taskCount: worker.taskCount,
+      heapUsage: worker.heapUsage,
+      eventLoopUtilization: worker.eventLoopUtilization,
+    });
+
+    return {
+      ...this.metrics.snapshot(),
+      queuedTasks: taskQueue.size,
+      workers: [
+        ...[...activeWorkersByPid.values()].map(worker => toThreadMetrics(worker, true)),
+        ...availableWorkers.map(worker => toThreadMetrics(worker, false)),
+      ],
+    };
+  }
+
+  /**
+   * Stops accepting new tasks and waits until the active and queued ones are completed.
+   * Once drained, the pool no longer accepts tasks, use `close()` to terminate its workers.
+   * @returns {Promise<void>} A promise that resolves when the pool is drained.
+   */
+  public async drain(): Promise<void> {
+    this.isDraining = true;
+    if (this.isDrained()) {
+      await this.events.emit('poolDrained');
+      return;
+    }
+    return new Promise(resolve => this.drainHandlers.push(resolve));
+  }
+
+  /**
+   * Closes the pool. New tasks are rejected with `PoolClosedError`, the active
+   * and queued ones are awaited (up to `timeoutMs`, if given), then the worker loaders
+   * are disposed and all workers are terminated. With `force`, or once the timeout
+   * expires, the remaining tasks fail with `PoolClosedError` instead.
+   * @param {PoolCloseOptions} [options] - The close options.
+   * @returns {Promise<void>} A promise that resolves when all workers are terminated.
+   */
+  public async close(options: PoolCloseOptions = {}): Promise<void> {
+    const { timeoutMs, force } = options;
+    const { activeWorkersByPid, availableWorkers, taskQueue, taskFailureHandlers } = this;
+    const drained = this.drain();
+
+    if (!force) {
+      let timer: NodeJS.Timeout;
+      const timeout = new Promise<void>(resolve => {
+        if (timeoutMs > 0) {
+          timer = setTimeout(resolve, timeoutMs);
+        }
+      });
+      await Promise.race([drained, timeout]);
+      clearTimeout(timer);
+    }
+
+    this.isClosed = true;
+    clearInterval(this.heartbeatTimer);
+    taskQueue.clear().forEach(({ reject }) => reject(new PoolClosedError()));
+    taskFailureHandlers.forEach(failTask => failTask(new PoolClosedError()));
+    this.idleTimers.forEach(timer => clearTimeout(timer));
+    this.idleTimers.clear();
+
+    const activeWorkers = [...activeWorkersByPid.values()];
+    const idleWorkers = availableWorkers.splice(0);
+    activeWorkersByPid.clear();
+    this.reservedPointers.clear();
+
+    await Promise.all([
+      ...activeWorkers.map(worker => worker.remove()),
+      ...idleWorkers.map(async worker => {
+        try {
+          await worker.close();
+        } catch (error) {
+          console.warn(`Failed to close the worker #${worker.id}`, error);
+        }
+        await worker.remove();
+      }),
+    ]);
+
+    this.notifyIfDrained();
+  }
+
+  /**
+   * Closes the pool gracefully when the process receives one of the given signals
+   * (SIGTERM and SIGINT by default). Once the pool is closed, the signal is raised
+   * again, so the process exits as it would without the handler.
+   * @param {GracefulShutdownOptions} [options] - The signals to handle and the close options.
+   * @returns {Function} A function that removes the signal handlers.
+   */
+  public handleShutdownSignals(options: GracefulShutdownOptions = {}): () => void {
+    const { signals = ['SIGTERM', 'SIGINT'], ...closeOptions } = options;
+    const removeHandlers = () => signals.forEach(signal => process.off(signal, handler));
+    const handler = (signal: NodeJS.Signals) => {
+      removeHandlers();
+      this.close(closeOptions)
+        .catch(error => console.warn(`Failed to close the worker pool`, error))
+        .finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+    };
+    signals.forEach(signal => process.once(signal, handler));
+
+    return removeHandlers;
+  }
+
+  /**
+   * Checks if there are no active or queued tasks.
+   * @returns {boolean} True if the pool is drained, false otherwise.
+   */
+  private isDrained(): boolean {
+    return this.activeWorkersByPid.size === 0 && this.taskQueue.size === 0;
+  }
+
+  /**
+   * Checks if the pool has no workers left and does not create new ones,
+   * because they crashed too many times in a row.
+   * @returns {boolean} True if the pool cannot run any task.
+   */
+  private isExhausted(): boolean {
+    return (
+      this.consecutiveCrashes > this.maxConsecutiveCrashes &&
+      this.workerCount + this.spawningCount === 0
+    );
+  }
+
+  /**
+   * Resolves the pending `drain()` calls if the pool is drained.
+   */
+  private notifyIfDrained(): void {
+    const { drainHandlers } = this;
+    if (drainHandlers.length > 0 && this.isDrained()) {
+      drainHandlers.splice(0).forEach(resolve => resolve());
+      this.events.emit('poolDrained');
+    }
+  }
+
   /**
    * Removes all workers from the pool.
    */
   public removeWorkers() {
     this.activeWorkersByPid.forEach(worker => worker.remove());
     this.availableWorkers.forEach(worker => worker.remove());
+    clearInterval(this.heartbeatTimer);
+    this.idleTimers.forEach(timer => clearTimeout(timer));
+    this.idleTimers.clear();
+    this.reservedPointers.clear();
   }
 
   /**
@@ -207,11 +1522,52 @@ export class WorkerPool<WorkerType = Worker> {
     return this.activeWorkersByPid.size;
   }
 
+  /**
+   * Subscribes the listener to the lifecycle event of the pool.
+   * @param {keyof WorkerPoolEvents} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   * @returns {Function} A function that unsubscribes the listener.
+   */
+  public on<E extends keyof WorkerPoolEvents>(
+    event: E,
+    listener: WorkerPoolEvents[E]
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Subscribes the listener to the next occurrence of the lifecycle event only.
+   * @param {keyof WorkerPoolEvents} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   * @returns {Function} A function that unsubscribes the listener.
+   */
+  public once<E extends keyof WorkerPoolEvents>(
+    event: E,
+    listener: WorkerPoolEvents[E]
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Unsubscribes the listener from the lifecycle event of the pool.
+   * @param {keyof WorkerPoolEvents} event - The name of the event.
+   * @param {Function} listener - The listener of the event.
+   */
+  public off<E extends keyof WorkerPoolEvents>(
+    event: E,
+    listener: WorkerPoolEvents[E]
+  ): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * Registers a handler for the worker release event.
+   * Same as subscribing to the `workerReleased` event, the pool waits for the handler
+   * before `releaseWorker()` resolves.
    * @param {WorkerReleaseHandler} handler - The handler function for releasing a worker.
+   * @returns {Function} A function that unsubscribes the handler.
    */
-  public onWorkerRelease(handler: WorkerReleaseHandler): void {
-    this.workerReleaseHandler = handler;
+  public onWorkerRelease(handler: WorkerReleaseHandler): () => void {
+    return this.on('workerReleased', handler);
   }
 }
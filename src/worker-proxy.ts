@@ -1,32 +1,107 @@
-import { Worker } from 'worker_threads';
+import { MessagePort, TransferListItem, Worker } from 'worker_threads';
 import {
+  TaskMessage,
   WorkerMessage,
   WorkerMessageContent,
   WorkerMessageName,
   WorkerMessageType,
 } from './worker-message';
-import { WorkerProxyOptions } from './worker.types';
+import {
+  DataNotPassedError,
+  WorkerCrashedError,
+  WorkerOutOfMemoryError,
+} from './worker.errors';
+import { SharedStoreState, WorkerProxyOptions } from './worker.types';
+
+type CrashListeners = {
+  error: (error: Error) => void;
+  exit: (code: number) => void;
+};
+
+type DataListeners = {
+  message: (content: WorkerMessageContent) => void;
+  exit: () => void;
+};
+
+type DataAcknowledgment = {
+  resolve: () => void;
+  reject: (error: Error) => void;
+};
 
 /**
  * Represents a proxy for a worker thread.
+ * @template InputType - The type of the task data sent to the worker.
+ * @template OutputType - The type of the task result received from the worker.
+ * @template ProgressType - The type of the task progress received from the worker.
+ * @template DataType - The type of the data sent to the running task.
  */
-export class WorkerProxy {
+export class WorkerProxy<
+  InputType = unknown,
+  OutputType = unknown,
+  ProgressType = unknown,
+  DataType = unknown
+> {
+  private _id: number;
   private _pointer: string;
+  private _isLoaded = false;
   private worker: Worker;
+  private crashListeners: CrashListeners[] = [];
+  private exitListeners: ((code: number) => void)[] = [];
+  private dataListeners: DataListeners;
+  private dataAcknowledgments: DataAcknowledgment[] = [];
+  private heartbeatListener: (content: WorkerMessageContent) => void;
+  private isPingPending = false;
+  private _missedHeartbeats = 0;
+  private isRemoved = false;
+  private _taskCount = 0;
+  private _heapUsage = 0;
 
   /**
    * Constructs a new WorkerProxy instance.
    * @param {unknown} sharedData - The shared data to be passed to the worker.
    * @param {WorkerProxyOptions} options - The options for the worker proxy.
+   * @param {SharedStoreState} [sharedStore] - The state of the store shared by all workers.
    */
-  constructor(sharedData: unknown, options: WorkerProxyOptions) {
+  constructor(
+    sharedData: unknown,
+    options: WorkerProxyOptions,
+    sharedStore?: SharedStoreState
+  ) {
+    const {
+      workerLoaderPath,
+      workerLoaderDependenciesPath,
+      resourceLimits,
+      env,
+      execArgv,
+      argv,
+      stdout,
+      stderr,
+    } = options;
     /**
      * The underlying worker object.
      * @type {Worker}
      */
     this.worker = new Worker(`${__dirname}/worker-loader/worker-loader-script`, {
-      workerData: { sharedData, options },
+      workerData: {
+        sharedData,
+        options: { workerLoaderPath, workerLoaderDependenciesPath },
+        sharedStore,
+      },
+      resourceLimits,
+      env,
+      execArgv,
+      argv,
+      stdout: !!stdout,
+      stderr: !!stderr,
     });
+    // the thread ID is reset to -1 once the thread exits
+    this._id = this.worker.threadId;
+    if (stdout) {
+      this.worker.stdout.on('data', chunk => stdout(this.id, String(chunk)));
+    }
+    if (stderr) {
+      this.worker.stderr.on('data', chunk => stderr(this.id, String(chunk)));
+    }
   }
 
   /**
@@ -34,7 +109,7 @@ export class WorkerProxy {
    * @type {number}
    */
   public get id(): number {
-    return this.worker.threadId;
+    return this._id;
   }
 
   /**
@@ -45,13 +120,55 @@ export class WorkerProxy {
     return this._pointer;
   }
 
+  /**
+   * Whether the resource of the pointer is loaded in the worker, i.e. it was loaded
+   * and has not been disposed since.
+   * @type {boolean}
+   */
+  public get isLoaded(): boolean {
+    return this._isLoaded;
+  }
+
+  /**
+   * The number of tasks run by the worker.
+   * @type {number}
+   */
+  public get taskCount(): number {
+    return this._taskCount;
+  }
+
+  /**
+   * The heap memory (in bytes) used by the worker thread, as reported on the last release.
+   * @type {number}
+   */
+  public get heapUsage(): number {
+    return this._heapUsage;
+  }
+
+  /**
+   * The number of heartbeats in a row the worker thread has not answered.
+   * @type {number}
+   */
+  public get missedHeartbeats(): number {
+    return this._missedHeartbeats;
+  }
+
+  /**
+   * The utilization (0-1) of the event loop of the worker thread since it started.
+   * @type {number}
+   */
+  public get eventLoopUtilization(): number {
+    return this.worker.performance?.eventLoopUtilization().utilization ?? 0;
+  }
+
   /**
    * Sets up the worker by sending a setup message and waiting for completion.
-   * @returns {Promise<void>} A promise that resolves when the setup is complete.
+   * @returns {Promise<void>} A promise that resolves when the setup is complete,
+   * or rejects with `WorkerCrashedError` if the thread exits before.
    */
   public async setup(): Promise<void> {
     const { worker } = this;
-    worker.removeAllListeners();
+    this.removeListeners();
     return new Promise((resolveSetup, rejectSetup) => {
       worker.on('message', (content: WorkerMessageContent) => {
         const { type, name, data } = content;
@@ -59,16 +176,17 @@ export class WorkerProxy {
           type === WorkerMessageType.System &&
           name === WorkerMessageName.SetupComplete
         ) {
-          worker.removeAllListeners();
+          this.removeListeners();
           resolveSetup();
         } else if (
           type === WorkerMessageType.System &&
           name === WorkerMessageName.SetupFailure
         ) {
-          worker.removeAllListeners();
-          rejectSetup(data);
+          this.removeListeners();
+          rejectSetup(WorkerMessage.create(content).toError() ?? data);
         }
       });
+      this.addExitListeners(rejectSetup);
       worker.postMessage(WorkerMessage.setup(worker.threadId).toJson());
     });
   }
@@ -76,12 +194,14 @@ export class WorkerProxy {
   /**
    * Loads a specific resource in the worker.
    * @param {string} pointer - The pointer value of the resource.
-   * @returns {Promise<void>} A promise that resolves when the resource is loaded.
+   * @returns {Promise<void>} A promise that resolves when the resource is loaded,
+   * or rejects with `WorkerCrashedError` if the thread exits before.
    */
   public async load(pointer: string): Promise<void> {
     this._pointer = pointer;
+    this._isLoaded = false;
     const { worker } = this;
-    worker.removeAllListeners();
+    this.removeListeners();
     return new Promise((resolveLoad, rejectLoad) => {
       worker.on('message', (content: WorkerMessageContent) => {
         const { type, name, data } = content;
@@ -89,27 +209,30 @@ export class WorkerProxy {
           type === WorkerMessageType.System &&
           name === WorkerMessageName.LoadComplete
         ) {
-          worker.removeAllListeners();
+          this.removeListeners();
+          this._isLoaded = true;
           resolveLoad();
         } else if (
           type === WorkerMessageType.System &&
           name === WorkerMessageName.LoadFailure
         ) {
-          worker.removeAllListeners();
-          rejectLoad(data);
+          this.removeListeners();
+          rejectLoad(WorkerMessage.create(content).toError() ?? data);
         }
       });
+      this.addExitListeners(rejectLoad);
       worker.postMessage(WorkerMessage.load(worker.threadId, pointer).toJson());
     });
   }
 
   /**
    * Disposes the worker by sending a dispose message and waiting for completion.
-   * @returns {Promise<void>} A promise that resolves when the worker is disposed.
+   * @returns {Promise<void>} A promise that resolves when the worker is disposed,
+   * or rejects with `WorkerCrashedError` if the thread exits before.
    */
   public async dispose(): Promise<void> {
     const { worker } = this;
-    worker.removeAllListeners();
+    this.removeListeners();
     return new Promise((resolveDispose, rejectDispose) => {
       worker.on('message', (content: WorkerMessageContent) => {
         const { type, name, data } = content;
@@ -117,41 +240,172 @@ export class WorkerProxy {
           type === WorkerMessageType.System &&
           name === WorkerMessageName.DisposeComplete
         ) {
-          worker.removeAllListeners();
+          this.removeListeners();
+          this._isLoaded = false;
+          this._heapUsage = (data as number) ?? this._heapUsage;
           resolveDispose();
         } else if (
           type === WorkerMessageType.System &&
           name === WorkerMessageName.DisposeFailure
         ) {
-          worker.removeAllListeners();
-          rejectDispose(data);
+          this.removeListeners();
+          rejectDispose(WorkerMessage.create(content).toError() ?? data);
         }
       });
+      this.addExitListeners(rejectDispose);
       worker.postMessage(WorkerMessage.dispose(worker.threadId).toJson());
     });
   }
 
+  /**
+   * Closes the worker by sending a close message and waiting for completion.
+   * The worker loader and its dependencies are disposed, the thread is still running.
+   * @returns {Promise<void>} A promise that resolves when the worker is closed,
+   * or rejects with `WorkerCrashedError` if the thread exits before.
+   */
+  public async close(): Promise<void> {
+    const { worker } = this;
+    this.removeListeners();
+    return new Promise((resolveClose, rejectClose) => {
+      worker.on('message', (content: WorkerMessageContent) => {
+        const { type, name, data } = content;
+        if (
+          type === WorkerMessageType.System &&
+          name === WorkerMessageName.CloseComplete
+        ) {
+          this.removeListeners();
+          this._isLoaded = false;
+          resolveClose();
+        } else if (
+          type === WorkerMessageType.System &&
+          name === WorkerMessageName.CloseFailure
+        ) {
+          this.removeListeners();
+          rejectClose(WorkerMessage.create(content).toError() ?? data);
+        }
+      });
+      this.addExitListeners(rejectClose);
+      worker.postMessage(WorkerMessage.close(worker.threadId).toJson());
+    });
+  }
+
+  /**
+   * Removes the handlers registered for the finished task without disposing
+   * the loaded resource, so that the worker can run the next task of the same pointer
+   * right away. Like `dispose()`, it waits for the heap usage of the thread.
+   * @returns {Promise<void>} A promise that resolves when the heap usage is reported,
+   * or rejects with `WorkerCrashedError` if the thread exits before.
+   */
+  public async detach(): Promise<void> {
+    const { worker } = this;
+    this.removeListeners();
+    return new Promise((resolveDetach, rejectDetach) => {
+      worker.on('message', (content: WorkerMessageContent) => {
+        const { type, name, data } = content;
+        if (
+          type === WorkerMessageType.System &&
+          name === WorkerMessageName.DetachComplete
+        ) {
+          this.removeListeners();
+          this._heapUsage = (data as number) ?? this._heapUsage;
+          resolveDetach();
+        }
+      });
+      this.addExitListeners(rejectDetach);
+      worker.postMessage(WorkerMessage.detach(worker.threadId).toJson());
+    });
+  }
+
   /**
    * Runs a task in the worker.
-   * @param {unknown} data - The task data to be sent to the worker.
+   * @param {InputType} data - The task data to be sent to the worker.
+   * @param {TransferListItem[]} [transferList] - The objects (e.g. `ArrayBuffer`s) to be moved
+   * to the worker instead of copied, they are no longer usable in the main thread.
+   */
+  public run(data?: InputType, transferList?: TransferListItem[]): void {
+    const { worker } = this;
+    this._taskCount++;
+    worker.postMessage(
+      WorkerMessage.runTask(worker.threadId, data).toJson(),
+      transferList
+    );
+  }
+
+  /**
+   * Sends more data to the running task, it is passed to the `onData()` hook of the worker.
+   * Data is delivered in the order it was sent.
+   * @param {DataType} data - The data to be sent to the worker.
+   * @param {TransferListItem[]} [transferList] - The objects (e.g. `ArrayBuffer`s) to be moved
+   * to the worker instead of copied, they are no longer usable in the main thread.
+   * @returns {Promise<void>} A promise that resolves when the worker has handled the data,
+   * or rejects with the error thrown by the worker or `DataNotPassedError` if the thread exits.
+   */
+  public async send(data: DataType, transferList?: TransferListItem[]): Promise<void> {
+    const { worker } = this;
+    this.addDataListeners();
+    return new Promise((resolve, reject) => {
+      this.dataAcknowledgments.push({ resolve, reject });
+      worker.postMessage(WorkerMessage.use(worker.threadId, data).toJson(), transferList);
+    });
+  }
+
+  /**
+   * Connects the worker with its peer through the given port of their channel.
+   * The port is transferred to the worker thread and is no longer usable in the main thread.
+   * @param {number} peerId - The ID of the peer worker.
+   * @param {MessagePort} port - The port of the channel connected to the peer.
+   */
+  public connect(peerId: number, port: MessagePort): void {
+    const { worker } = this;
+    worker.postMessage(
+      WorkerMessage.connectPeer(worker.threadId, peerId, port).toJson(),
+      [port]
+    );
+  }
+
+  /**
+   * Sends a heartbeat to the worker thread, which answers it with a pong
+   * unless its event loop is blocked. A heartbeat still unanswered when
+   * the next one is sent counts as missed, a pong resets the count.
+   */
+  public ping(): void {
+    const { worker } = this;
+    this.addHeartbeatListener();
+    if (this.isPingPending) {
+      this._missedHeartbeats++;
+    }
+    this.isPingPending = true;
+    worker.postMessage(WorkerMessage.ping(worker.threadId).toJson());
+  }
+
+  /**
+   * Asks the worker to cancel the running task.
+   * The worker confirms the cancellation with a `task_cancelled` message.
+   * The cancelled instance may still call `resolve()` once it is done, so it is
+   * no longer treated as loaded and the next task gets a fresh one, whose results
+   * cannot be mixed up with the late ones.
    */
-  public run<DataType = unknown>(data?: DataType): void {
+  public cancel(): void {
     const { worker } = this;
-    worker.postMessage(WorkerMessage.runTask(worker.threadId, data).toJson());
+    this._isLoaded = false;
+    worker.postMessage(WorkerMessage.cancelTask(worker.threadId).toJson());
   }
 
   /**
    * Registers a message handler for non-system messages received from the worker.
    * @param {Function} handler - The message handler function.
    */
-  public onMessage(handler: (message: WorkerMessage) => Promise<void>) {
+  public onMessage(
+    handler: (message: TaskMessage<OutputType, ProgressType>) => Promise<void>
+  ) {
     this.worker.on('message', (content: WorkerMessageContent) => {
       if (content.type !== WorkerMessageType.System) {
-        handler(WorkerMessage.create(content)).catch(error =>
-          console.log(
-            `worker:${this.worker.threadId} | ${new Date().toISOString()} ::`,
-            error
-          )
+        const message = WorkerMessage.create(content) as TaskMessage<
+          OutputType,
+          ProgressType
+        >;
+        handler(message).catch(error =>
+          console.log(`worker:${this.id} | ${new Date().toISOString()} ::`, error)
         );
       }
     });
@@ -162,15 +416,48 @@ export class WorkerProxy {
    * @param {Function} handler - The error handler function.
    */
   public onError(handler: (workerId: number, error: Error) => void) {
-    this.worker.on('error', error => handler(this.worker.threadId, error));
+    this.worker.on('error', error => handler(this.id, error));
   }
 
   /**
    * Registers an exit handler for the worker's exit event.
+   * Like the crash handlers, it stays registered for the whole life of the worker.
    * @param {Function} handler - The exit handler function.
    */
   public onExit(handler: (workerId: number, code: number) => void) {
-    this.worker.on('exit', code => handler(this.worker.threadId, code));
+    const listener = (code: number) => handler(this.id, code);
+    this.exitListeners.push(listener);
+    this.worker.on('exit', listener);
+  }
+
+  /**
+   * Registers a handler called when the worker thread exits on its own,
+   * e.g. due to an uncaught error. Running out of memory within the resource limits
+   * is reported as `WorkerOutOfMemoryError`. Unlike other handlers, it stays registered
+   * for the whole life of the worker and is not called when the worker is removed.
+   * @param {Function} handler - The crash handler function.
+   */
+  public onCrash(handler: (workerId: number, error: WorkerCrashedError) => void) {
+    const { worker, id } = this;
+    let uncaughtError: Error;
+    const listeners: CrashListeners = {
+      error: error => {
+        uncaughtError = error;
+      },
+      exit: code => {
+        if (this.isRemoved === false) {
+          handler(
+            id,
+            (uncaughtError as NodeJS.ErrnoException)?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+              ? new WorkerOutOfMemoryError(id, code, uncaughtError)
+              : new WorkerCrashedError(id, code, uncaughtError)
+          );
+        }
+      },
+    };
+    this.crashListeners.push(listeners);
+    worker.on('error', listeners.error);
+    worker.on('exit', listeners.exit);
   }
 
   /**
@@ -178,7 +465,102 @@ export class WorkerProxy {
    * @returns {Promise<number>} A promise that resolves with the worker's exit code.
    */
   public async remove(): Promise<number> {
+    this.isRemoved = true;
     const code = await this.worker.terminate();
     return code;
   }
+
+  /**
+   * Registers the listeners that reject the pending operation (setup, load, dispose
+   * or close) when the thread exits before answering it, e.g. because it crashed
+   * or was removed. They are removed along with the listeners of the operation.
+   * @param {Function} reject - The function rejecting the pending operation.
+   */
+  private addExitListeners(reject: (error: WorkerCrashedError) => void): void {
+    const { worker } = this;
+    let uncaughtError: Error;
+    worker.on('error', error => {
+      uncaughtError = error;
+    });
+    worker.on('exit', code => {
+      this.removeListeners();
+      reject(new WorkerCrashedError(this.id, code, uncaughtError));
+    });
+  }
+
+  /**
+   * Registers the listeners of the data acknowledgments, unless they are already registered.
+   * Acknowledgments arrive in the order the data was sent, so each one settles
+   * the oldest pending `send()`.
+   */
+  private addDataListeners(): void {
+    const { worker, dataAcknowledgments } = this;
+    if (this.dataListeners) {
+      return;
+    }
+    this.dataListeners = {
+      message: (content: WorkerMessageContent) => {
+        if (
+          content.type === WorkerMessageType.System &&
+          content.name === WorkerMessageName.DataPassed
+        ) {
+          const error = WorkerMessage.create(content).toError();
+          const acknowledgment = dataAcknowledgments.shift();
+          if (error) {
+            acknowledgment?.reject(error);
+          } else {
+            acknowledgment?.resolve();
+          }
+        }
+      },
+      exit: () => {
+        dataAcknowledgments
+          .splice(0)
+          .forEach(({ reject }) => reject(new DataNotPassedError(this.id)));
+      },
+    };
+    worker.on('message', this.dataListeners.message);
+    worker.on('exit', this.dataListeners.exit);
+  }
+
+  /**
+   * Registers the listener of the heartbeat answers, unless it is already registered.
+   */
+  private addHeartbeatListener(): void {
+    if (this.heartbeatListener) {
+      return;
+    }
+    this.heartbeatListener = (content: WorkerMessageContent) => {
+      if (
+        content.type === WorkerMessageType.System &&
+        content.name === WorkerMessageName.Pong
+      ) {
+        this.isPingPending = false;
+        this._missedHeartbeats = 0;
+      }
+    };
+    this.worker.on('message', this.heartbeatListener);
+  }
+
+  /**
+   * Removes the listeners registered for the previous operation,
+   * only the crash, exit, data and heartbeat listeners are kept.
+   */
+  private removeListeners(): void {
+    const { worker, crashListeners, exitListeners, dataListeners, heartbeatListener } =
+      this;
+    worker.removeAllListeners();
+    crashListeners.forEach(({ error, exit }) => {
+      worker.on('error', error);
+      worker.on('exit', exit);
+    });
+    exitListeners.forEach(exit => worker.on('exit', exit));
+    if (dataListeners) {
+      worker.on('message', dataListeners.message);
+      worker.on('exit', dataListeners.exit);
+    }
+    if (heartbeatListener) {
+      worker.on('message', heartbeatListener);
+    }
+  }
 }
@@ -0,0 +1,356 @@
+import { SharedStoreEntryNotFoundError } from './worker.errors';
+import { SharedRecord, SharedStoreSchema, SharedStoreState } from './worker.types';
+
+/**
+ * Acquires the lock at the given index, waits while it is held by another thread.
+ * @param {Int32Array} locks - The lock words.
+ * @param {number} index - The index of the lock.
+ */
+const lock = (locks: Int32Array, index: number): void => {
+  while (Atomics.compareExchange(locks, index, 0, 1) !== 0) {
+    Atomics.wait(locks, index, 1);
+  }
+};
+
+/**
+ * Releases the lock at the given index and wakes up one of the waiting threads.
+ * @param {Int32Array} locks - The lock words.
+ * @param {number} index - The index of the lock.
+ */
+const unlock = (locks: Int32Array, index: number): void => {
+  Atomics.store(locks, index, 0);
+  Atomics.notify(locks, index, 1);
+};
+
+/**
+ * Represents an integer counter shared by all threads.
+ * All operations are atomic.
+ */
+export class SharedCounter {
+  /**
+   * Creates a new instance of the SharedCounter class.
+   * @param {BigInt64Array} values - The shared values.
+   * @param {number} offset - The index of the counter value.
+   */
+  constructor(private values: BigInt64Array, private offset: number) {}
+
+  /**
+   * Returns the current value.
+   * @returns {number} The value of the counter.
+   */
+  public get(): number {
+    return Number(Atomics.load(this.values, this.offset));
+  }
+
+  /**
+   * Sets the value.
+   * @param {number} value - The new value.
+   */
+  public set(value: number): void {
+    Atomics.store(this.values, this.offset, BigInt(value));
+  }
+
+  /**
+   * Adds the given number to the counter.
+   * @param {number} [delta] - The number to be added, 1 by default.
+   * @returns {number} The new value of the counter.
+   */
+  public add(delta = 1): number {
+    const value = BigInt(delta);
+    return Number(Atomics.add(this.values, this.offset, value) + value);
+  }
+
+  /**
+   * Sets the value only if the counter still holds the expected one,
+   * e.g. to move a cursor forward only once.
+   * @param {number} expected - The expected current value.
+   * @param {number} value - The new value.
+   * @returns {boolean} True if the value was set, false otherwise.
+   */
+  public compareAndSet(expected: number, value: number): boolean {
+    const current = BigInt(expected);
+    return (
+      Atomics.compareExchange(this.values, this.offset, current, BigInt(value)) ===
+      current
+    );
+  }
+}
+
+/**
+ * Represents a fixed number of records with the same integer fields shared by all threads.
+ * Records are read and written as a whole, so no thread sees a partially updated record.
+ */
+export class SharedRecords<RecordType extends SharedRecord = SharedRecord> {
+  /**
+   * Creates a new instance of the SharedRecords class.
+   * @param {Int32Array} locks - The shared lock words.
+   * @param {number} lockIndex - The index of the lock of the records.
+   * @param {BigInt64Array} values - The shared values.
+   * @param {number} offset - The index of the first field of the first record.
+   * @param {string[]} fields - The names of the record fields.
+   * @param {number} size - The number of records.
+   */
+  constructor(
+    private locks: Int32Array,
+    private lockIndex: number,
+    private values: BigInt64Array,
+    private offset: number,
+    public readonly fields: string[],
+    public readonly size: number
+  ) {}
+
+  /**
+   * Returns the record at the given index.
+   * @param {number} index - The index of the record.
+   * @returns {RecordType} The record.
+   * @throws {RangeError} If the index is out of range.
+   */
+  public get(index: number): RecordType {
+    const { locks, lockIndex, values, fields } = this;
+    const start = this.getRecordOffset(index);
+    const record = {} as SharedRecord;
+
+    lock(locks, lockIndex);
+    try {
+      fields.forEach((field, i) => {
+        record[field] = Number(values[start + i]);
+      });
+    } finally {
+      unlock(locks, lockIndex);
+    }
+
+    return record as RecordType;
+  }
+
+  /**
+   * Updates the given fields of the record at the given index, the other fields are kept.
+   * @param {number} index - The index of the record.
+   * @param {Partial<RecordType>} record - The field values to be set.
+   * @throws {RangeError} If the index is out of range.
+   */
+  public set(index: number, record: Partial<RecordType>): void {
+    const { locks, lockIndex, values, fields } = this;
+    const start = this.getRecordOffset(index);
+
+    lock(locks, lockIndex);
+    try {
+      fields.forEach((field, i) => {
+        if (record[field] !== undefined) {
+          values[start + i] = BigInt(record[field]);
+        }
+      });
+    } finally {
+      unlock(locks, lockIndex);
+    }
+  }
+
+  /**
+   * Returns the index of the first field of the record in the shared values.
+   * @param {number} index - The index of the record.
+   * @returns {number} The offset of the record.
+   * @throws {RangeError} If the index is out of range.
+   */
+  private getRecordOffset(index: number): number {
+    const { size, offset, fields } = this;
+    if (Number.isInteger(index) === false || index < 0 || index >= size) {
+      throw new RangeError(`Record index ${index} is out of range (0-${size - 1})`);
+    }
+    return offset + index * fields.length;
+  }
+}
+
+/**
+ * Represents a fixed-size FIFO queue of integers shared by all threads.
+ */
+export class SharedRingBuffer {
+  /**
+   * Creates a new instance of the SharedRingBuffer class.
+   * @param {Int32Array} locks - The shared lock words.
+   * @param {number} lockIndex - The index of the lock of the ring buffer.
+   * @param {BigInt64Array} values - The shared values.
+   * @param {number} offset - The index of the head, followed by the length and the items.
+   * @param {number} capacity - The maximum number of items.
+   */
+  constructor(
+    private locks: Int32Array,
+    private lockIndex: number,
+    private values: BigInt64Array,
+    private offset: number,
+    public readonly capacity: number
+  ) {}
+
+  /**
+   * The number of items in the ring buffer.
+   * @type {number}
+   * @readonly
+   */
+  public get length(): number {
+    return Number(Atomics.load(this.values, this.offset + 1));
+  }
+
+  /**
+   * Adds the item to the end of the ring buffer.
+   * @param {number} value - The item to be added.
+   * @returns {boolean} True if the item was added, false if the ring buffer is full.
+   */
+  public push(value: number): boolean {
+    const { locks, lockIndex, values, offset, capacity } = this;
+
+    lock(locks, lockIndex);
+    try {
+      const head = Number(values[offset]);
+      const length = Number(values[offset + 1]);
+      if (length === capacity) {
+        return false;
+      }
+      values[offset + 2 + ((head + length) % capacity)] = BigInt(value);
+      Atomics.store(values, offset + 1, BigInt(length + 1));
+      return true;
+    } finally {
+      unlock(locks, lockIndex);
+    }
+  }
+
+  /**
+   * Removes and returns the first item of the ring buffer.
+   * @returns {number | undefined} The item, or undefined if the ring buffer is empty.
+   */
+  public shift(): number | undefined {
+    const { locks, lockIndex, values, offset, capacity } = this;
+
+    lock(locks, lockIndex);
+    try {
+      const head = Number(values[offset]);
+      const length = Number(values[offset + 1]);
+      if (length === 0) {
+        return undefined;
+      }
+      const value = Number(values[offset + 2 + head]);
+      values[offset] = BigInt((head + 1) % capacity);
+      Atomics.store(values, offset + 1, BigInt(length - 1));
+      return value;
+    } finally {
+      unlock(locks, lockIndex);
+    }
+  }
+}
+
+/**
+ * Represents a store of counters, records and ring buffers kept in shared memory,
+ * so that all threads of the pool can read and update them without sending messages.
+ * The pool creates the store and passes its state to each worker thread, where it is
+ * available through `getSharedStore()` or `Worker.sharedStore`.
+ */
+export class WorkerSharedStore {
+  /**
+   * Creates a new store with the memory required by the given schema.
+   * @param {SharedStoreSchema} schema - The entries of the store.
+   * @returns {WorkerSharedStore} The created store.
+   */
+  public static create(schema: SharedStoreSchema): WorkerSharedStore {
+    const { counters = [], records = {}, ringBuffers = {} } = schema;
+    const lockCount = Object.keys(records).length + Object.keys(ringBuffers).length;
+    const valueCount =
+      counters.length +
+      Object.values(records).reduce(
+        (sum, { fields, size }) => sum + fields.length * size,
+        0
+      ) +
+      Object.values(ringBuffers).reduce((sum, { capacity }) => sum + 2 + capacity, 0);
+
+    return new WorkerSharedStore({
+      schema,
+      locks: new SharedArrayBuffer(lockCount * Int32Array.BYTES_PER_ELEMENT),
+      values: new SharedArrayBuffer(valueCount * BigInt64Array.BYTES_PER_ELEMENT),
+    });
+  }
+
+  private counters = new Map<string, SharedCounter>();
+  private records = new Map<string, SharedRecords>();
+  private ringBuffers = new Map<string, SharedRingBuffer>();
+
+  /**
+   * Creates a new instance of the WorkerSharedStore class over the shared memory of the state.
+   * @param {SharedStoreState} state - The schema and the shared memory of the store.
+   */
+  constructor(public readonly state: SharedStoreState) {
+    const { schema } = state;
+    const { counters = [], records = {}, ringBuffers = {} } = schema;
+    const locks = new Int32Array(state.locks);
+    const values = new BigInt64Array(state.values);
+    let lockIndex = 0;
+    let offset = 0;
+
+    counters.forEach(name => {
+      this.counters.set(name, new SharedCounter(values, offset));
+      offset += 1;
+    });
+
+    Object.entries(records).forEach(([name, { fields, size }]) => {
+      this.records.set(
+        name,
+        new SharedRecords(locks, lockIndex++, values, offset, fields, size)
+      );
+      offset += fields.length * size;
+    });
+
+    Object.entries(ringBuffers).forEach(([name, { capacity }]) => {
+      this.ringBuffers.set(
+        name,
+        new SharedRingBuffer(locks, lockIndex++, values, offset, capacity)
+      );
+      offset += 2 + capacity;
+    });
+  }
+
+  /**
+   * Returns the counter with the given name.
+   * @param {string} name - The name of the counter.
+   * @returns {SharedCounter} The counter.
+   * @throws {SharedStoreEntryNotFoundError} If the schema does not define the counter.
+   */
+  public counter(name: string): SharedCounter {
+    return this.getEntry(this.counters, 'counter', name);
+  }
+
+  /**
+   * Returns the records with the given name.
+   * @param {string} name - The name of the records.
+   * @returns {SharedRecords<RecordType>} The records.
+   * @throws {SharedStoreEntryNotFoundError} If the schema does not define the records.
+   */
+  public recordSet<RecordType extends SharedRecord = SharedRecord>(
+    name: string
+  ): SharedRecords<RecordType> {
+    return this.getEntry(this.records, 'records', name) as SharedRecords<RecordType>;
+  }
+
+  /**
+   * Returns the ring buffer with the given name.
+   * @param {string} name - The name of the ring buffer.
+   * @returns {SharedRingBuffer} The ring buffer.
+   * @throws {SharedStoreEntryNotFoundError} If the schema does not define the ring buffer.
+   */
+  public ringBuffer(name: string): SharedRingBuffer {
+    return this.getEntry(this.ringBuffers, 'ring buffer', name);
+  }
+
+  /**
+   * Returns the entry with the given name.
+   * @param {Map<string, EntryType>} entries - The entries of one kind.
+   * @param {string} kind - The kind of the entries.
+   * @param {string} name - The name of the entry.
+   * @returns {EntryType} The entry.
+   * @throws {SharedStoreEntryNotFoundError} If there is no such entry.
+   */
+  private getEntry<EntryType>(
+    entries: Map<string, EntryType>,
+    kind: string,
+    name: string
+  ): EntryType {
+    if (entries.has(name) === false) {
+      throw new SharedStoreEntryNotFoundError(kind, name);
+    }
+    return entries.get(name);
+  }
+}
@@ -0,0 +1,161 @@
+import { TaskGraphFailurePolicy, TaskGraphNodeStatus } from './worker.enums';
+import {
+  TaskCancelledError,
+  TaskGraphCycleError,
+  UnknownTaskDependencyError,
+} from './worker.errors';
+import {
+  TaskGraph,
+  TaskGraphExecutor,
+  TaskGraphNode,
+  TaskGraphNodeResult,
+  TaskGraphOptions,
+  TaskGraphOutputs,
+  TaskGraphResults,
+} from './worker.types';
+
+/**
+ * Represents a graph of tasks, each node runs a task once the nodes it depends on
+ * are resolved. Nodes that do not depend on each other run in parallel.
+ * The input of a node is built by its `input` function from the outputs of
+ * the nodes it depends on. Without it, a node with dependencies receives their outputs
+ * by node name and a node without dependencies receives its `data`.
+ */
+export class WorkerTaskGraph {
+  private nodes: Map<string, TaskGraphNode>;
+
+  /**
+   * Creates a new instance of the WorkerTaskGraph class.
+   * @param {TaskGraph} graph - The nodes of the graph by name.
+   * @throws {UnknownTaskDependencyError} If a node depends on a node that is not in the graph.
+   * @throws {TaskGraphCycleError} If the nodes depend on each other in a cycle.
+   */
+  constructor(graph: TaskGraph) {
+    this.nodes = new Map(Object.entries(graph));
+    this.validate();
+  }
+
+  /**
+   * Runs the tasks of the graph with the given executor, e.g. `WorkerPool.execute()`.
+   * When a node fails, the failure policy decides the fate of the others:
+   * with `TaskGraphFailurePolicy.Skip` (default) the nodes depending on it are skipped,
+   * with `TaskGraphFailurePolicy.Cancel` the whole graph is cancelled.
+   *
+   * @param {TaskGraphExecutor} execute - The function running a task on a worker.
+   * @param {TaskGraphOptions} [options] - The failure policy and the signal cancelling the graph.
+   * @returns {Promise<TaskGraphResults>} A promise that resolves with the result of each node once all of them are settled.
+   */
+  public async run(
+    execute: TaskGraphExecutor,
+    options: TaskGraphOptions = {}
+  ): Promise<TaskGraphResults> {
+    const { failurePolicy = TaskGraphFailurePolicy.Skip, signal } = options;
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    const results: TaskGraphResults = {};
+    const runs = new Map<string, Promise<TaskGraphNodeResult>>();
+
+    if (signal?.aborted) {
+      abortController.abort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const runNode = (name: string): Promise<TaskGraphNodeResult> => {
+      if (runs.has(name) === false) {
+        const run = this.runNode(name, runNode, execute, abortController.signal).then(
+          result => {
+            results[name] = result;
+            if (
+              result.status === TaskGraphNodeStatus.Failed &&
+              failurePolicy === TaskGraphFailurePolicy.Cancel
+            ) {
+              abortController.abort();
+            }
+            return result;
+          }
+        );
+        runs.set(name, run);
+      }
+      return runs.get(name);
+    };
+
+    try {
+      await Promise.all([...this.nodes.keys()].map(runNode));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return results;
+  }
+
+  /**
+   * Runs the task of the node once the nodes it depends on are settled.
+   * @param {string} name - The name of the node.
+   * @param {Function} runNode - The function running a node of the graph (once).
+   * @param {TaskGraphExecutor} execute - The function running a task on a worker.
+   * @param {AbortSignal} signal - The signal cancelling the graph.
+   * @returns {Promise<TaskGraphNodeResult>} A promise that resolves with the result of the node.
+   */
+  private async runNode(
+    name: string,
+    runNode: (name: string) => Promise<TaskGraphNodeResult>,
+    execute: TaskGraphExecutor,
+    signal: AbortSignal
+  ): Promise<TaskGraphNodeResult> {
+    const { pointer, dependsOn = [], data, input, options } = this.nodes.get(name);
+    const parents = await Promise.all(dependsOn.map(runNode));
+
+    if (signal.aborted) {
+      return { status: TaskGraphNodeStatus.Cancelled };
+    }
+    if (parents.some(({ status }) => status !== TaskGraphNodeStatus.Resolved)) {
+      return { status: TaskGraphNodeStatus.Skipped };
+    }
+
+    const outputs: TaskGraphOutputs = {};
+    dependsOn.forEach((parent, i) => {
+      outputs[parent] = parents[i].value;
+    });
+
+    try {
+      const nodeInput = input ? input(outputs) : dependsOn.length > 0 ? outputs : data;
+      const value = await execute(pointer, nodeInput, { ...options, signal });
+      return { status: TaskGraphNodeStatus.Resolved, value };
+    } catch (error) {
+      if (signal.aborted && error instanceof TaskCancelledError) {
+        return { status: TaskGraphNodeStatus.Cancelled, error };
+      }
+      return { status: TaskGraphNodeStatus.Failed, error };
+    }
+  }
+
+  /**
+   * Checks that the nodes depend only on nodes of the graph and not in a cycle.
+   * @throws {UnknownTaskDependencyError} If a node depends on a node that is not in the graph.
+   * @throws {TaskGraphCycleError} If the nodes depend on each other in a cycle.
+   */
+  private validate(): void {
+    const { nodes } = this;
+    const visited = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (name: string) => {
+      if (path.includes(name)) {
+        throw new TaskGraphCycleError([...path.slice(path.indexOf(name)), name]);
+      }
+      if (visited.has(name)) {
+        return;
+      }
+      path.push(name);
+      (nodes.get(name).dependsOn || []).forEach(dependency => {
+        if (nodes.has(dependency) === false) {
+          throw new UnknownTaskDependencyError(name, dependency);
+        }
+        visit(dependency);
+      });
+      path.pop();
+      visited.add(name);
+    };
+
+    nodes.forEach((node, name) => visit(name));
+  }
+}
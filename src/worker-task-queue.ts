@@ -0,0 +1,128 @@
+import { TaskPriority } from './worker.enums';
+import { TaskQueueFullError } from './worker.errors';
+
+/**
+ * Represents a queued task along with its scheduling details.
+ * @typedef {Object} QueuedTask
+ * @template TaskType - The type of the queued task.
+ * @property {TaskType} task - The queued task.
+ * @property {number} priority - The priority given to the task when it was queued.
+ * @property {number} enqueuedAt - The time (in ms) the task was queued.
+ */
+type QueuedTask<TaskType> = {
+  task: TaskType;
+  priority: number;
+  enqueuedAt: number;
+};
+
+/**
+ * Represents a queue of tasks waiting for a worker.
+ * Tasks with a higher priority are dequeued first, tasks of the same priority
+ * in order of arrival. To prevent starvation, the priority of a waiting task
+ * is raised by one level for every `agingInterval` milliseconds it spends in the queue.
+ * @template TaskType - The type of the queued task.
+ */
+export class WorkerTaskQueue<TaskType = unknown> {
+  private tasks: QueuedTask<TaskType>[] = [];
+
+  /**
+   * Creates a new instance of the WorkerTaskQueue class.
+   * @param {number} [maxSize] - The maximum number of queued tasks, unlimited by default.
+   * @param {number} [agingInterval] - The time (in ms) after which a waiting task gains one priority level, 0 disables aging.
+   */
+  constructor(public readonly maxSize = Infinity, public readonly agingInterval = 5000) {}
+
+  /**
+   * The number of queued tasks.
+   * @type {number}
+   * @readonly
+   */
+  public get size(): number {
+    return this.tasks.length;
+  }
+
+  /**
+   * Checks if the queue has reached its maximum size.
+   * @returns {boolean} True if no more tasks can be queued, false otherwise.
+   */
+  public isFull(): boolean {
+    return this.tasks.length >= this.maxSize;
+  }
+
+  /**
+   * Adds a task to the queue.
+   * @param {TaskType} task - The task to be queued.
+   * @param {number} [priority] - The priority of the task, `TaskPriority.Normal` by default.
+   * @throws {TaskQueueFullError} If the queue has reached its maximum size.
+   */
+  public enqueue(task: TaskType, priority: number = TaskPriority.Normal): void {
+    if (this.isFull()) {
+      throw new TaskQueueFullError(this.maxSize);
+    }
+    this.tasks.push({ task, priority, enqueuedAt: Date.now() });
+  }
+
+  /**
+   * Removes and returns the task with the highest effective priority.
+   * @param {Function} [filter] - Limits the choice to the tasks it returns true for.
+   * @returns {TaskType | undefined} The task, or undefined if no task is queued (or matches the filter).
+   */
+  public dequeue(filter?: (task: TaskType) => boolean): TaskType | undefined {
+    const { tasks } = this;
+    const now = Date.now();
+    let index = -1;
+    let highestPriority: number;
+
+    for (let i = 0; i < tasks.length; i++) {
+      if (filter && filter(tasks[i].task) === false) {
+        continue;
+      }
+      const priority = this.getEffectivePriority(tasks[i], now);
+      // tasks are kept in order of arrival, so on a tie the earlier one wins
+      if (index === -1 || priority > highestPriority) {
+        index = i;
+        highestPriority = priority;
+      }
+    }
+
+    return index > -1 ? tasks.splice(index, 1)[0].task : undefined;
+  }
+
+  /**
+   * Removes the given task from the queue.
+   * @param {TaskType} task - The task to be removed.
+   * @returns {boolean} True if the task was queued, false otherwise.
+   */
+  public remove(task: TaskType): boolean {
+    const index = this.tasks.findIndex(queued => queued.task === task);
+    if (index > -1) {
+      this.tasks.splice(index, 1);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Removes and returns all queued tasks.
+   * @returns {TaskType[]} The removed tasks in order of arrival.
+   */
+  public clear(): TaskType[] {
+    const { tasks } = this;
+    this.tasks = [];
+    return tasks.map(queued => queued.task);
+  }
+
+  /**
+   * Returns the priority of the queued task raised by the time it has been waiting.
+   * @param {QueuedTask<TaskType>} queued - The queued task.
+   * @param {number} now - The current time (in ms).
+   * @returns {number} The effective priority.
+   */
+  private getEffectivePriority(queued: QueuedTask<TaskType>, now: number): number {
+    const { agingInterval } = this;
+    if (agingInterval > 0) {
+      return queued.priority + Math.floor((now - queued.enqueuedAt) / agingInterval);
+    }
+    return queued.priority;
+  }
+}
@@ -1,4 +1,48 @@
 export enum WorkerStatus {
     complete = 'complete',
     error = 'complete',
-}
\ No newline at end of file
+}
+
+/**
+ * Represents the priority levels of tasks waiting for a worker.
+ * Any other number can be used as well, the higher the value the sooner the task is dispatched.
+ * @enum {number}
+ */
+export enum TaskPriority {
+  Low = 0,
+  Normal = 1,
+  High = 2,
+  Critical = 3,
+}
+
+/**
+ * Represents the outcomes of tasks recorded in the metrics of the pool.
+ * @enum {string}
+ */
+export enum TaskOutcome {
+  Resolved = 'resolved',
+  Rejected = 'rejected',
+  Failed = 'failed',
+}
+
+/**
+ * Represents what happens to the rest of a task graph when one of its nodes fails.
+ * With `Skip` the nodes depending on the failed one are skipped and the independent ones
+ * keep running, with `Cancel` the running nodes are cancelled and the pending ones are not run.
+ * @enum {string}
+ */
+export enum TaskGraphFailurePolicy {
+  Skip = 'skip',
+  Cancel = 'cancel',
+}
+
+/**
+ * Represents the statuses of the nodes of a task graph once it has finished.
+ * @enum {string}
+ */
+export enum TaskGraphNodeStatus {
+  Resolved = 'resolved',
+  Failed = 'failed',
+  Skipped = 'skipped',
+  Cancelled = 'cancelled',
+}
@@ -1,3 +1,6 @@
+import { ErrorJson } from './worker-message';
+import { TaskAttempt } from './worker.types';
+
 export class MissingWorkerPathError extends Error {}
 
 export class InvalidPathError extends Error {
@@ -25,3 +28,120 @@ export class WorkerPoolPathsConflictError extends Error {
     );
   }
 }
+
+export class TooManyWarmReservationsError extends Error {
+  constructor(reservedCount: number, maxCount: number) {
+    super(
+      `Cannot reserve ${reservedCount} warm workers in a pool of at most ${maxCount} workers, at least one worker has to stay unreserved`
+    );
+  }
+}
+
+export class TaskQueueFullError extends Error {
+  constructor(maxSize: number) {
+    super(`The task queue is full, it cannot hold more than ${maxSize} pending tasks`);
+  }
+}
+
+export class TaskRejectedError extends Error {
+  constructor(
+    public readonly workerId: number,
+    public readonly error: ErrorJson,
+    public readonly attempts: TaskAttempt[] = [],
+    cause?: Error
+  ) {
+    super(error?.message || `The task was rejected by the worker #${workerId}`, {
+      cause,
+    });
+  }
+}
+
+export class WorkerCrashedError extends Error {
+  constructor(
+    public readonly workerId: number,
+    public readonly code: number,
+    public readonly error?: Error
+  ) {
+    super(
+      `The worker #${workerId} crashed with exit code ${code}${
+        error ? `: ${error.message}` : ''
+      }`
+    );
+  }
+}
+
+export class WorkerOutOfMemoryError extends WorkerCrashedError {}
+
+export class WorkerUnresponsiveError extends Error {
+  constructor(
+    public readonly workerId: number,
+    public readonly missedHeartbeats: number
+  ) {
+    super(
+      `The worker #${workerId} missed ${missedHeartbeats} heartbeats in a row and was terminated`
+    );
+  }
+}
+
+export class TaskGraphCycleError extends Error {
+  constructor(public readonly nodes: string[]) {
+    super(`The task graph has a cycle: ${nodes.join(' -> ')}`);
+  }
+}
+
+export class UnknownTaskDependencyError extends Error {
+  constructor(public readonly node: string, public readonly dependency: string) {
+    super(
+      `The node "${node}" of the task graph depends on the unknown node "${dependency}"`
+    );
+  }
+}
+
+export class TaskTimeoutError extends Error {
+  constructor(public readonly workerId: number, public readonly timeout: number) {
+    super(`The task on the worker #${workerId} did not complete within ${timeout}ms`);
+  }
+}
+
+export class TaskCancelledError extends Error {
+  constructor(public readonly workerId?: number) {
+    super(
+      workerId
+        ? `The task on the worker #${workerId} was cancelled`
+        : `The task was cancelled before it started`
+    );
+  }
+}
+
+export class DataNotPassedError extends Error {
+  constructor(public readonly workerId: number) {
+    super(`The data was not passed to the worker #${workerId}, its thread has exited`);
+  }
+}
+
+export class PeerNotConnectedError extends Error {
+  constructor(public readonly peerId: number) {
+    super(`The worker #${peerId} is not connected to this worker`);
+  }
+}
+
+export class PoolClosedError extends Error {
+  constructor() {
+    super(`The worker pool is closed and does not accept new tasks`);
+  }
+}
+
+export class PoolExhaustedError extends Error {
+  constructor(public readonly consecutiveCrashes: number, cause?: Error) {
+    super(
+      `The pool has no workers left, they crashed ${consecutiveCrashes} times in a row and were not replaced`,
+      { cause }
+    );
+  }
+}
+
+export class SharedStoreEntryNotFoundError extends Error {
+  constructor(kind: string, name: string) {
+    super(`The shared store has no ${kind} named "${name}"`);
+  }
+}
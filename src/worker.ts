@@ -1,47 +1,212 @@
 /* eslint-disable @typescript-eslint/no-unsafe-call */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/require-await */
-import { parentPort, threadId } from 'worker_threads';
+import { parentPort, threadId, TransferListItem } from 'worker_threads';
+import { serializeError } from './worker-error-serializer';
 import { WorkerMessage } from './worker-message';
+import { WorkerSharedStore } from './worker-shared-store';
+import { PeerNotConnectedError } from './worker.errors';
+import { getPeerPorts, getSharedStore } from './worker.utils';
 
 export type TaskResolved = 'task_resolved';
 export type TaskRejected = 'task_rejected';
 export type TaskProgress = 'task_progress';
 export type TaskStatus = TaskResolved | TaskRejected | TaskProgress;
+export type TaskGenerator<ProgressType = unknown, OutputType = unknown> = AsyncGenerator<
+  ProgressType,
+  OutputType | void,
+  undefined
+>;
 
-export class Worker<SharedDataType = unknown> {
+/**
+ * Represents the worker run in a thread of the pool.
+ * The type parameters describe the task contract shared with the main thread.
+ * The shared data comes first, so that workers typed with it alone keep compiling.
+ * @template SharedDataType - The type of the shared data.
+ * @template InputType - The type of the task data passed to `run()`.
+ * @template OutputType - The type of the result passed to `resolve()`.
+ * @template ProgressType - The type of the progress passed to `progress()`.
+ * @template DataType - The type of the data sent to the running task, passed to `onData()`.
+ */
+export class Worker<
+  SharedDataType = unknown,
+  InputType = unknown,
+  OutputType = unknown,
+  ProgressType = unknown,
+  DataType = unknown
+> {
   public get id(): number {
     return threadId;
   }
 
   protected sharedData: SharedDataType;
   private isRejected = false;
+  private abortController = new AbortController();
 
-  public run(...args: unknown[]): void {
+  /**
+   * The signal that is aborted when the task gets cancelled.
+   * Long running tasks should check it and stop their work.
+   */
+  public get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  /**
+   * The store kept in the memory shared by all threads of the pool,
+   * available if the pool was configured with its schema.
+   */
+  public get sharedStore(): WorkerSharedStore {
+    return getSharedStore();
+  }
+
+  /**
+   * The IDs of the workers connected to this one with `WorkerPool.connectWorkers()`.
+   */
+  public get peers(): number[] {
+    return [...getPeerPorts().keys()];
+  }
+
+  /**
+   * Runs the task. It can also be an async generator, then each yielded value
+   * is sent as the progress of the task and the returned value as its result.
+   * It may return the status returned by `resolve()` or `reject()`, which is ignored.
+   * @param {InputType} [data] - The task data.
+   */
+  public run(
+    data?: InputType
+  ):
+    | Promise<TaskStatus | void>
+    | TaskStatus
+    | void
+    | TaskGenerator<ProgressType, OutputType> {
     throw new Error('Method not implemented');
   }
 
+  /**
+   * Called when the main thread sends more data to the running task with `WorkerProxy.send()`,
+   * override it to feed a long running task with incremental batches.
+   * The main thread gets the acknowledgment once the returned promise settles.
+   * @param {DataType} data - The data sent by the main thread.
+   */
+  public onData(data: DataType): Promise<void> | void {
+    throw new Error('Method not implemented');
+  }
+
+  /**
+   * Called when a connected worker sends a message with `sendToPeer()`,
+   * override it to receive the data of other pipeline stages.
+   * @param {number} peerId - The ID of the worker that sent the message.
+   * @param {unknown} data - The data of the message.
+   */
+  public onPeerMessage(peerId: number, data: unknown): Promise<void> | void {
+    return;
+  }
+
+  /**
+   * Sends the data directly to the connected worker, without the main thread.
+   * @param {number} peerId - The ID of the connected worker.
+   * @param {unknown} data - The data to be sent.
+   * @param {TransferListItem[]} [transferList] - The objects (e.g. `ArrayBuffer`s) to be moved
+   * to the peer instead of copied, they are no longer usable in this worker.
+   * @throws {PeerNotConnectedError} If the worker is not connected to the peer.
+   */
+  public sendToPeer(
+    peerId: number,
+    data: unknown,
+    transferList?: TransferListItem[]
+  ): void {
+    const port = getPeerPorts().get(peerId);
+    if (!port) {
+      throw new PeerNotConnectedError(peerId);
+    }
+    port.postMessage(data, transferList);
+  }
+
+  /**
+   * Prepares the worker for the next task, it is called by the worker loader before `run()`.
+   * An instance kept loaded between tasks gets a fresh signal and can send the results again.
+   */
+  public resetTaskState(): void {
+    this.isRejected = false;
+    if (this.abortController.signal.aborted) {
+      this.abortController = new AbortController();
+    }
+  }
+
+  /**
+   * Called when the task gets cancelled, override it to clean up the work in progress.
+   */
+  public onCancel(): Promise<void> | void {
+    return;
+  }
+
+  /**
+   * Cancels the task by aborting the signal and calling the `onCancel` hook.
+   * After cancellation, the results of the task are no longer sent.
+   */
+  public async cancel(): Promise<void> {
+    this.abortController.abort();
+    await this.onCancel();
+  }
+
   public deserialize(data: unknown): unknown {
     throw new Error('Method not implemented');
   }
 
-  public resolve<DataType = unknown>(data?: DataType): TaskResolved {
-    if (this.isRejected === false) {
+  /**
+   * Sends the result of the task to the main thread.
+   * @param {OutputType} [data] - The result of the task.
+   * @param {TransferListItem[]} [transferList] - The objects (e.g. `ArrayBuffer`s) to be moved
+   * to the main thread instead of copied, they are no longer usable in the worker.
+   */
+  public resolve(data?: OutputType, transferList?: TransferListItem[]): TaskResolved {
+    if (this.isRejected === false && this.signal.aborted === false) {
       parentPort.postMessage(
-        WorkerMessage.taskResolved<DataType>(threadId, data).toJson()
+        WorkerMessage.taskResolved<OutputType>(threadId, data).toJson(),
+        transferList
       );
       return 'task_resolved';
     }
   }
 
+  /**
+   * Sends the error of the task to the main thread. If the error holds values
+   * that cannot be copied to another thread, only its name, message and stack are sent.
+   * @param {Error} [error] - The reason of the rejection.
+   */
   public reject(error?: Error): TaskRejected {
-    parentPort.postMessage(WorkerMessage.taskRejected(threadId, error).toJson());
+    if (this.signal.aborted === false) {
+      try {
+        parentPort.postMessage(WorkerMessage.taskRejected(threadId, error).toJson());
+      } catch (cloneError) {
+        const { name, message, stack, className } = serializeError(error);
+        parentPort.postMessage(
+          WorkerMessage.taskRejected(threadId, {
+            name,
+            message,
+            stack,
+            className,
+          } as Error).toJson()
+        );
+      }
+    }
     this.isRejected = true;
     return 'task_rejected';
   }
 
-  public progress<DataType = unknown>(data?: DataType): TaskProgress {
-    parentPort.postMessage(WorkerMessage.taskProgress<DataType>(threadId, data).toJson());
+  /**
+   * Sends the progress of the task to the main thread.
+   * @param {ProgressType} [data] - The progress data.
+   * @param {TransferListItem[]} [transferList] - The objects (e.g. `ArrayBuffer`s) to be moved
+   * to the main thread instead of copied, they are no longer usable in the worker.
+   */
+  public progress(data?: ProgressType, transferList?: TransferListItem[]): TaskProgress {
+    if (this.signal.aborted === false) {
+      parentPort.postMessage(
+        WorkerMessage.taskProgress<ProgressType>(threadId, data).toJson(),
+        transferList
+      );
+    }
     return 'task_progress';
   }
 }
@@ -1,3 +1,9 @@
+import { MessagePort, ResourceLimits, SHARE_ENV, TransferListItem } from 'worker_threads';
+import { ErrorJson } from './worker-message';
+import { Worker } from './worker';
+import { TaskRejectedError } from './worker.errors';
+import { TaskGraphFailurePolicy, TaskGraphNodeStatus } from './worker.enums';
+
 export type PathsByNames = {
   default?: string;
   [key: string]: string;
@@ -6,21 +12,247 @@ export type PathsByNames = {
 export type WorkersConfig<SharedDataType = unknown> = {
   threadsCount?: number;
   inviolableThreadsCount?: number;
+  minThreads?: number;
+  maxThreads?: number;
+  idleTimeoutMs?: number;
+  maxQueueSize?: number;
+  priorityAgingInterval?: number;
+  taskTimeout?: number;
+  cancelGracePeriod?: number;
+  crashRespawnDelay?: number;
+  maxConsecutiveCrashes?: number;
+  heartbeatInterval?: number;
+  maxMissedHeartbeats?: number;
+  retryPolicy?: RetryPolicy;
+  maxTasksPerWorker?: number;
+  maxWorkerHeapUsageMb?: number;
+  affinity?: boolean;
+  warmReservations?: WarmReservations;
+  sharedStore?: SharedStoreSchema;
   sharedData?: SharedDataType;
   [key: string]: unknown;
 };
 
-export type WorkerProxyOptions = {
+export type WarmReservations = {
+  [pointer: string]: number;
+};
+
+export type WorkerLoaderOptions = {
   workerLoaderPath?: string;
   workerLoaderDependenciesPath?: string;
 };
 
+export type WorkerOutputHandler = (workerId: number, chunk: string) => void;
+
+export type WorkerThreadOptions = {
+  resourceLimits?: ResourceLimits;
+  env?: NodeJS.Dict<string> | typeof SHARE_ENV;
+  execArgv?: string[];
+  argv?: unknown[];
+  stdout?: WorkerOutputHandler;
+  stderr?: WorkerOutputHandler;
+};
+
+export type WorkerProxyOptions = WorkerLoaderOptions & WorkerThreadOptions;
+
 export type WorkerPoolOptions = WorkersConfig & WorkerProxyOptions;
 
+export type PeerConnection = {
+  peerId: number;
+  port: MessagePort;
+};
+
 export type WorkerData = {
   pointer: string;
   sharedData?: unknown;
-  options?: WorkerProxyOptions;
+  options?: WorkerLoaderOptions;
+  sharedStore?: SharedStoreState;
 };
 
 export type WorkerClass<T = unknown> = new (...args: unknown[]) => T;
+
+export type TaskProgressHandler<ProgressType = unknown> = (
+  data: ProgressType
+) => Promise<void> | void;
+
+export type RetryPolicy = {
+  maxAttempts?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: number;
+  retryIf?: (error: ErrorJson, attempt: number) => boolean;
+};
+
+export type TaskAttempt = {
+  attempt: number;
+  workerId: number;
+  error: ErrorJson;
+  startedAt: number;
+  finishedAt: number;
+};
+
+export type TaskOptions = {
+  priority?: number;
+  timeout?: number;
+  signal?: AbortSignal;
+  retry?: RetryPolicy;
+  transferList?: TransferListItem[];
+};
+
+export type MapProgress = {
+  total: number;
+  completed: number;
+  failed: number;
+};
+
+export type MapOptions = Omit<TaskOptions, 'transferList'> & {
+  concurrency?: number;
+  ordered?: boolean;
+  stopOnError?: boolean;
+  onProgress?: (progress: MapProgress) => Promise<void> | void;
+};
+
+export type MapItemResult<OutputType = unknown> =
+  | { index: number; status: 'fulfilled'; value: OutputType }
+  | { index: number; status: 'rejected'; reason: Error };
+
+export type TaskGraphOutputs = {
+  [node: string]: unknown;
+};
+
+export type TaskGraphNode = {
+  pointer: string;
+  dependsOn?: string[];
+  data?: unknown;
+  input?: (outputs: TaskGraphOutputs) => unknown;
+  options?: Omit<TaskOptions, 'signal'>;
+};
+
+export type TaskGraph = {
+  [node: string]: TaskGraphNode;
+};
+
+export type TaskGraphOptions = {
+  failurePolicy?: TaskGraphFailurePolicy;
+  signal?: AbortSignal;
+};
+
+export type TaskGraphNodeResult = {
+  status: TaskGraphNodeStatus;
+  value?: unknown;
+  error?: Error;
+};
+
+export type TaskGraphResults = {
+  [node: string]: TaskGraphNodeResult;
+};
+
+export type TaskGraphExecutor = (
+  pointer: string,
+  data: unknown,
+  options: TaskOptions
+) => Promise<unknown>;
+
+export type PoolCloseOptions = {
+  timeoutMs?: number;
+  force?: boolean;
+};
+
+export type GracefulShutdownOptions = PoolCloseOptions & {
+  signals?: NodeJS.Signals[];
+};
+
+export type SharedStoreSchema = {
+  counters?: string[];
+  records?: { [name: string]: { fields: string[]; size: number } };
+  ringBuffers?: { [name: string]: { capacity: number } };
+};
+
+export type SharedStoreState = {
+  schema: SharedStoreSchema;
+  locks: SharedArrayBuffer;
+  values: SharedArrayBuffer;
+};
+
+export type SharedRecord = {
+  [field: string]: number;
+};
+
+export type WorkerInput<WorkerType> = WorkerType extends Worker<unknown, infer InputType>
+  ? InputType
+  : unknown;
+
+export type WorkerOutput<WorkerType> = WorkerType extends Worker<
+  unknown,
+  unknown,
+  infer OutputType
+>
+  ? OutputType
+  : unknown;
+
+export type WorkerProgress<WorkerType> = WorkerType extends Worker<
+  unknown,
+  unknown,
+  unknown,
+  infer ProgressType
+>
+  ? ProgressType
+  : unknown;
+
+export type WorkerChannelData<WorkerType> = WorkerType extends Worker<
+  unknown,
+  unknown,
+  unknown,
+  unknown,
+  infer DataType
+>
+  ? DataType
+  : unknown;
+
+export type HistogramSnapshot = {
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+};
+
+export type TaskCounters = {
+  started: number;
+  resolved: number;
+  rejected: number;
+  failed: number;
+};
+
+export type WorkerThreadMetrics = {
+  id: number;
+  active: boolean;
+  taskCount: number;
+  heapUsage: number;
+  eventLoopUtilization: number;
+};
+
+export type WorkerPoolMetrics = {
+  tasks: { [pointer: string]: TaskCounters };
+  taskDuration: HistogramSnapshot;
+  queueWait: HistogramSnapshot;
+  workersSpawned: number;
+  workersCrashed: number;
+  queuedTasks: number;
+  workers: WorkerThreadMetrics[];
+};
+
+export type WorkerPoolEvents = {
+  workerCreated: (workerId: number) => Promise<void> | void;
+  workerLoaded: (workerId: number, pointer: string) => Promise<void> | void;
+  taskStarted: (workerId: number, pointer: string) => Promise<void> | void;
+  taskProgress: (workerId: number, progress: unknown) => Promise<void> | void;
+  taskResolved: (workerId: number, result: unknown) => Promise<void> | void;
+  taskRejected: (workerId: number, error: TaskRejectedError) => Promise<void> | void;
+  workerReleased: (workerId: number, data?: unknown) => Promise<void> | void;
+  workerExited: (workerId: number, code: number) => Promise<void> | void;
+  workerUnresponsive: (
+    workerId: number,
+    missedHeartbeats: number
+  ) => Promise<void> | void;
+  poolDrained: () => Promise<void> | void;
+};
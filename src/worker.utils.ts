@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
 import * as os from 'os';
-import { workerData } from 'worker_threads';
+import { MessagePort, workerData } from 'worker_threads';
+import { RetryPolicy, WorkerData } from './worker.types';
+import { WorkerSharedStore } from './worker-shared-store';
+
 /**
  * Get the number of workers from configuration
  * or based on the number of available CPU cores.
@@ -22,4 +25,47 @@ export const getWorkersCount = (
   return threadsCount;
 };
 
+/**
+ * Get the delay before the next attempt of a rejected task.
+ * The delay grows exponentially with each attempt up to the maximum
+ * and is then reduced by a random part of it (jitter),
+ * so that tasks rejected at the same time are not retried all at once.
+ *
+ * @param {RetryPolicy} policy
+ * @param {number} attempt - The number of the failed attempt, starting at 1.
+ * @returns {number}
+ */
+export const getRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const { initialDelay = 100, maxDelay = 10000, factor = 2, jitter = 0.2 } = policy;
+  const delay = Math.min(initialDelay * Math.pow(factor, attempt - 1), maxDelay);
+
+  return Math.round(delay * (1 - Math.random() * jitter));
+};
+
 export const getSharedData = <T>() => workerData.sharedData as T;
+
+let sharedStore: WorkerSharedStore;
+
+/**
+ * Get the store kept in the memory shared by all threads of the pool.
+ * The store is available only if the pool was configured with its schema.
+ *
+ * @returns {WorkerSharedStore}
+ */
+export const getSharedStore = (): WorkerSharedStore => {
+  const state = (workerData as WorkerData)?.sharedStore;
+  if (state && sharedStore?.state !== state) {
+    sharedStore = new WorkerSharedStore(state);
+  }
+  return state ? sharedStore : undefined;
+};
+
+const peerPorts = new Map<number, MessagePort>();
+
+/**
+ * Get the ports of the channels connecting this thread with other workers of the pool,
+ * by the IDs of the connected workers.
+ *
+ * @returns {Map<number, MessagePort>}
+ */
+export const getPeerPorts = (): Map<number, MessagePort> => peerPorts;